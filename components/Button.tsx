@@ -0,0 +1,35 @@
+import React, { memo } from 'react';
+import { track } from '../lib/analytics';
+
+interface ButtonProps {
+  href: string;
+  children: React.ReactNode;
+  variant?: 'primary' | 'whatsapp';
+  className?: string;
+  /** Name reported with the click analytics event. */
+  trackAs?: string;
+  /** Analytics event sent on click when `trackAs` is set. */
+  trackEvent?: string;
+}
+
+const Button = memo(({ href, children, variant = 'primary', className = '', trackAs, trackEvent = 'cta_click' }: ButtonProps) => {
+  const baseStyles = "btn-shine inline-flex items-center justify-center px-10 py-5 rounded-button font-black text-lg transition-all duration-300 transform hover:scale-105 active:scale-95 shadow-2xl uppercase tracking-tighter text-center cursor-pointer";
+  const variants = {
+    primary: "bg-brand text-on-brand hover:bg-brand-light",
+    whatsapp: "bg-whatsapp text-on-whatsapp hover:bg-whatsapp-light",
+  };
+
+  return (
+    <a 
+      href={href} 
+      target="_blank" 
+      rel="noopener noreferrer" 
+      className={`${baseStyles} ${variants[variant]} ${className}`}
+      onClick={trackAs ? () => track(trackEvent, { cta: trackAs }) : undefined}
+    >
+      {children}
+    </a>
+  );
+});
+
+export default Button;
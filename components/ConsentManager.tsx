@@ -0,0 +1,120 @@
+import React, { useCallback, useId, useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages';
+import { useConsent } from '../hooks/useConsent';
+import { ALL_DENIED, ALL_GRANTED, CONSENT_CATEGORIES, ConsentChoices, saveConsent } from '../lib/consent';
+import { PAGE_PATHS } from '../lib/routes';
+import Modal from './Modal';
+import { Link } from './Router';
+
+interface ConsentManagerProps {
+  /** The preferences dialog, also opened from the footer's "Preferências de cookies". */
+  preferencesOpen: boolean;
+  onPreferencesOpenChange: (open: boolean) => void;
+}
+
+interface ConsentPreferencesProps {
+  initial: ConsentChoices;
+  onClose: () => void;
+}
+
+const buttonStyles = "px-6 py-3 rounded-button text-xs font-black uppercase tracking-widest transition-colors";
+const primaryButton = `${buttonStyles} bg-brand text-on-brand hover:bg-brand-light`;
+// Refusing has to be as easy as accepting, so it gets the same weight.
+const secondaryButton = `${buttonStyles} bg-fg/10 text-fg hover:bg-fg/20`;
+const linkButton = `${buttonStyles} text-fg-muted hover:text-fg underline underline-offset-4`;
+
+const ConsentPreferences = ({ initial, onClose }: ConsentPreferencesProps) => {
+  const { t } = useI18n();
+  const [choices, setChoices] = useState<ConsentChoices>(initial);
+  const baseId = useId();
+
+  const save = (next: ConsentChoices) => {
+    saveConsent(next);
+    onClose();
+  };
+
+  return (
+    <Modal onClose={onClose} labelledBy={`${baseId}-title`} className="rounded-card-md p-8 md:p-10">
+      <h2 id={`${baseId}-title`} className="text-2xl md:text-3xl font-black uppercase tracking-tight text-fg mb-4 pr-10">{t('consent.preferencesTitle')}</h2>
+      <p className="text-fg-muted text-sm leading-relaxed mb-6">
+        {t('consent.preferencesText')}{' '}
+        <Link to={PAGE_PATHS.privacy} onClick={onClose} className="text-brand underline underline-offset-4">{t('consent.policyLink')}</Link>.
+      </p>
+
+      <ul className="mb-8">
+        {CONSENT_CATEGORIES.map(category => {
+          const id = `${baseId}-${category}`;
+          const title = t(`consent.categories.${category}.title` as MessageKey);
+          const description = t(`consent.categories.${category}.description` as MessageKey);
+          return (
+            <li key={category} className="flex items-start justify-between gap-6 py-5 border-t border-fg/5">
+              <div>
+                {category === 'necessary' ? (
+                  <p className="font-bold text-fg">{title}</p>
+                ) : (
+                  <label htmlFor={id} className="font-bold text-fg cursor-pointer">{title}</label>
+                )}
+                <p id={`${id}-description`} className="text-fg-muted text-sm leading-relaxed mt-1">{description}</p>
+              </div>
+              {category === 'necessary' ? (
+                <span className="shrink-0 text-[10px] font-black uppercase tracking-widest text-brand mt-1">{t('consent.alwaysOn')}</span>
+              ) : (
+                <input
+                  id={id}
+                  type="checkbox"
+                  role="switch"
+                  checked={choices[category]}
+                  onChange={e => setChoices(prev => ({ ...prev, [category]: e.target.checked }))}
+                  aria-describedby={`${id}-description`}
+                  className="shrink-0 mt-1 w-5 h-5 accent-brand cursor-pointer"
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-wrap justify-end gap-3">
+        <button type="button" className={secondaryButton} onClick={() => save(ALL_DENIED)}>{t('consent.rejectAll')}</button>
+        <button type="button" className={secondaryButton} onClick={() => save(choices)}>{t('consent.save')}</button>
+        <button type="button" className={primaryButton} onClick={() => save(ALL_GRANTED)}>{t('consent.acceptAll')}</button>
+      </div>
+    </Modal>
+  );
+};
+
+// Cookie banner until the visitor decides (again, after a new version of the
+// legal texts), plus the preferences dialog to change the choice later.
+const ConsentManager = ({ preferencesOpen, onPreferencesOpenChange }: ConsentManagerProps) => {
+  const { t } = useI18n();
+  const consent = useConsent();
+  const closePreferences = useCallback(() => onPreferencesOpenChange(false), [onPreferencesOpenChange]);
+
+  if (consent === undefined) return null;
+
+  if (preferencesOpen) {
+    return <ConsentPreferences initial={consent?.choices ?? ALL_DENIED} onClose={closePreferences} />;
+  }
+
+  if (consent) return null;
+
+  return (
+    <div role="region" aria-label={t('consent.bannerTitle')} className="fixed inset-x-0 bottom-0 z-[250] p-4">
+      <div className="max-w-4xl mx-auto bg-surface-raised border border-fg/10 rounded-card-sm p-6 md:p-8 shadow-2xl flex flex-col md:flex-row gap-6 md:items-center">
+        <p className="flex-1 text-sm text-fg-soft leading-relaxed">
+          <strong className="block text-fg text-xs font-black uppercase tracking-widest mb-2">{t('consent.bannerTitle')}</strong>
+          {t('consent.bannerText')}{' '}
+          <Link to={PAGE_PATHS.privacy} className="text-brand underline underline-offset-4">{t('consent.policyLink')}</Link>.
+        </p>
+        <div className="flex flex-wrap gap-3 shrink-0">
+          <button type="button" className={linkButton} onClick={() => onPreferencesOpenChange(true)}>{t('consent.customize')}</button>
+          <button type="button" className={secondaryButton} onClick={() => saveConsent(ALL_DENIED)}>{t('consent.rejectAll')}</button>
+          <button type="button" className={primaryButton} onClick={() => saveConsent(ALL_GRANTED)}>{t('consent.acceptAll')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentManager;
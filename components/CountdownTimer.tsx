@@ -0,0 +1,33 @@
+import React from 'react';
+import { useOfferDeadline } from './OfferDeadline';
+import { useI18n } from '../i18n/I18nProvider';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+
+const format = (n?: number) => (n === undefined ? '--' : n.toString().padStart(2, '0'));
+
+const CountdownTimer = () => {
+  const { timeLeft } = useOfferDeadline();
+  const { t } = useI18n();
+  // A digit changing every second is motion too; minutes are enough then.
+  const reducedMotion = usePrefersReducedMotion();
+  const units = [
+    { label: t('countdown.hours'), val: timeLeft?.hours },
+    { label: t('countdown.minutes'), val: timeLeft?.minutes },
+    ...(reducedMotion ? [] : [{ label: t('countdown.seconds'), val: timeLeft?.seconds }]),
+  ];
+
+  return (
+    <div className="flex justify-center gap-4 mb-8">
+      {units.map((item, i) => (
+        <div key={i} className="flex flex-col items-center">
+          <div className="bg-fg/10 backdrop-blur-md border border-fg/20 px-4 py-3 rounded-card-sm min-w-[70px]">
+            <span className="text-2xl md:text-3xl font-black text-brand leading-none">{format(item.val)}</span>
+          </div>
+          <span className="text-[10px] font-bold mt-2 text-fg-subtle tracking-widest">{item.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CountdownTimer;
@@ -0,0 +1,22 @@
+import React, { memo } from 'react';
+
+interface CourseCardProps {
+  title: string;
+  description: string;
+  icon: React.ElementType;
+  /** Rendered under the description, e.g. the curriculum explorer's toggle. */
+  children?: React.ReactNode;
+}
+
+const CourseCard = memo(({ title, description, icon: Icon, children }: CourseCardProps) => (
+  <div className="bg-surface-raised p-8 rounded-card-sm border border-fg/5 hover:border-brand/50 transition-all duration-500 group hover:-translate-y-2">
+    <div className="mb-6 inline-block p-4 bg-brand/10 rounded-card-sm group-hover:bg-brand/20 transition-colors">
+      <Icon className="w-8 h-8 text-brand" />
+    </div>
+    <h3 className="text-xl font-bold text-fg mb-3 uppercase font-heading tracking-tight group-hover:text-brand transition-colors">{title}</h3>
+    <p className="text-fg-muted text-sm leading-relaxed">{description}</p>
+    {children}
+  </div>
+));
+
+export default CourseCard;
@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { IconName, ModulesContent } from '../content/schema';
+import { I18nProvider } from '../i18n/I18nProvider';
+import CurriculumExplorer from './CurriculumExplorer';
+
+const Icon = () => null;
+const icons = { ShieldCheck: Icon, Users: Icon } as Partial<Record<IconName, React.ElementType>> as Record<IconName, React.ElementType>;
+
+const modules: ModulesContent = {
+  title: 'Estrutura da Formação',
+  subtitle: '...',
+  items: [
+    {
+      icon: 'ShieldCheck',
+      title: 'Base da Fé',
+      description: 'Introdução à teologia.',
+      modules: [
+        { id: 'introducao', title: 'Introdução à Teologia', formats: ['video', 'pdf'], hours: 3, lessons: ['O que é teologia', 'Fé e razão'] },
+        { id: 'revelacao', title: 'Revelação', formats: ['pdf'], hours: 2.5, lessons: ['Revelação geral'] },
+      ],
+    },
+    {
+      icon: 'Users',
+      title: 'Comunicação',
+      description: 'Didática e homilética.',
+      modules: [{ id: 'oratoria', title: 'Oratória', formats: ['video'], hours: 1, lessons: ['Voz e ritmo', 'Postura'] }],
+    },
+  ],
+};
+
+const renderExplorer = () =>
+  render(
+    <I18nProvider initialLocale="pt-BR">
+      <CurriculumExplorer modules={modules} icons={icons} />
+    </I18nProvider>
+  );
+
+const toggle = (name: RegExp) => screen.getByRole('button', { name });
+const filter = (name: string) => screen.getByRole('button', { name });
+
+describe('CurriculumExplorer', () => {
+  beforeEach(() => localStorage.setItem('locale', 'pt-BR'));
+  afterEach(cleanup);
+
+  it('shows the totals computed from the modules', () => {
+    renderExplorer();
+    expect(screen.getByText('3 módulos · 5 aulas · 6,5 horas')).toBeTruthy();
+    expect(toggle(/^2 módulos · 5,5 horas/)).toBeTruthy();
+    expect(toggle(/^1 módulo · 1 hora/)).toBeTruthy();
+  });
+
+  it('expands and collapses an area into its modules and lessons', () => {
+    renderExplorer();
+    const button = toggle(/^2 módulos/);
+    const panel = document.getElementById(button.getAttribute('aria-controls')!)!;
+    expect(button.getAttribute('aria-expanded')).toBe('false');
+    expect(panel.hidden).toBe(true);
+
+    fireEvent.click(button);
+    expect(button.getAttribute('aria-expanded')).toBe('true');
+    expect(panel.hidden).toBe(false);
+    expect(panel.textContent).toContain('Introdução à Teologia');
+    expect(panel.textContent).toContain('Fé e razão');
+    expect(toggle(/^1 módulo/).getAttribute('aria-expanded')).toBe('false');
+
+    fireEvent.click(button);
+    expect(button.getAttribute('aria-expanded')).toBe('false');
+    expect(panel.hidden).toBe(true);
+  });
+
+  it('filters the modules and the totals by format', () => {
+    renderExplorer();
+    expect(filter('Todos').getAttribute('aria-pressed')).toBe('true');
+
+    fireEvent.click(filter('PDF'));
+    expect(filter('PDF').getAttribute('aria-pressed')).toBe('true');
+    expect(screen.getByText('2 módulos · 3 aulas · 5,5 horas')).toBeTruthy();
+
+    // An area with no module in the format can't be expanded.
+    const empty = toggle(/Nenhum módulo neste formato/);
+    expect(empty.hasAttribute('disabled')).toBe(true);
+    expect(empty.getAttribute('aria-expanded')).toBe('false');
+
+    fireEvent.click(filter('Vídeo'));
+    expect(screen.getByText('2 módulos · 4 aulas · 4 horas')).toBeTruthy();
+    fireEvent.click(toggle(/^1 módulo · 3 horas/));
+    expect(screen.queryByText('Revelação')).toBeNull();
+    expect(screen.getByText('Introdução à Teologia')).toBeTruthy();
+  });
+});
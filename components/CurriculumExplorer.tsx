@@ -0,0 +1,146 @@
+import React, { useId, useState } from 'react';
+import { ChevronDown, FileText, PlayCircle } from 'lucide-react';
+import type { IconName, ModuleFormat, ModulesContent } from '../content/schema';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages';
+import { curriculumFormats, curriculumSummary, filterModules, FormatFilter, formatHours } from '../lib/curriculum';
+import CourseCard from './CourseCard';
+
+interface CurriculumExplorerProps {
+  modules: ModulesContent;
+  icons: Record<IconName, React.ElementType>;
+}
+
+type CountKey = 'curriculum.modules' | 'curriculum.lessons' | 'curriculum.hours';
+
+const FORMAT_ICONS: Record<ModuleFormat, React.ElementType> = {
+  video: PlayCircle,
+  pdf: FileText,
+};
+
+// The curriculum areas as cards, each expanding into its modules and their
+// lessons.
+const CurriculumExplorer = ({ modules, icons }: CurriculumExplorerProps) => {
+  const { t, info } = useI18n();
+  const [filter, setFilter] = useState<FormatFilter>('all');
+  const [open, setOpen] = useState<ReadonlySet<number>>(() => new Set());
+  const baseId = useId();
+
+  const areas = modules.items;
+  const summary = curriculumSummary(areas, filter);
+  const formats = curriculumFormats(areas);
+
+  const count = (key: CountKey, value: number) => {
+    const form = new Intl.PluralRules(info.intl).select(value) === 'one' ? 'one' : 'other';
+    const shown = key === 'curriculum.hours' ? formatHours(value, info.intl) : value;
+    return t(`${key}.${form}` as MessageKey, { count: shown });
+  };
+
+  const toggle = (index: number) => {
+    setOpen(prev => {
+      const next = new Set(prev);
+      if (prev.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row items-center justify-between gap-6 mb-10">
+        <p className="text-fg-muted text-sm font-bold uppercase tracking-widest text-center" aria-live="polite">
+          {[
+            count('curriculum.modules', summary.modules),
+            count('curriculum.lessons', summary.lessons),
+            count('curriculum.hours', summary.hours),
+          ].join(' · ')}
+        </p>
+        {formats.length > 1 && (
+          <div role="group" aria-label={t('curriculum.filterLabel')} className="flex gap-2">
+            {(['all', ...formats] as FormatFilter[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={filter === option}
+                onClick={() => setFilter(option)}
+                className={`px-5 py-2 rounded-full text-xs font-black uppercase tracking-widest border transition-colors ${
+                  filter === option
+                    ? 'bg-brand border-brand text-on-brand'
+                    : 'border-fg/10 text-fg-muted hover:border-brand/50 hover:text-fg'
+                }`}
+              >
+                {t(`curriculum.formats.${option}` as MessageKey)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 items-start">
+        {areas.map((area, i) => {
+          const visible = filterModules(area.modules, filter);
+          const hours = visible.reduce((total, module) => total + module.hours, 0);
+          const expanded = open.has(i) && visible.length > 0;
+          const panelId = `${baseId}-area-${i}`;
+
+          return (
+            <CourseCard key={i} icon={icons[area.icon]} title={area.title} description={area.description}>
+              <button
+                type="button"
+                id={`${panelId}-toggle`}
+                aria-expanded={expanded}
+                aria-controls={panelId}
+                disabled={visible.length === 0}
+                onClick={() => toggle(i)}
+                className="mt-6 w-full flex items-center justify-between gap-3 text-left text-xs font-black uppercase tracking-widest text-brand disabled:text-fg-faint disabled:cursor-default"
+              >
+                <span>
+                  {visible.length > 0
+                    ? `${count('curriculum.modules', visible.length)} · ${count('curriculum.hours', hours)}`
+                    : t('curriculum.noModules')}
+                </span>
+                {visible.length > 0 && (
+                  <ChevronDown
+                    className={`w-4 h-4 shrink-0 transition-transform duration-300 motion-reduce:transition-none ${expanded ? 'rotate-180' : ''}`}
+                    aria-hidden="true"
+                  />
+                )}
+              </button>
+
+              <div id={panelId} role="region" aria-labelledby={`${panelId}-toggle`} hidden={!expanded}>
+                <ol className="mt-4 space-y-5">
+                  {visible.map(module => (
+                    <li key={module.id} className="border-t border-fg/5 pt-4">
+                      <div className="flex items-start justify-between gap-3">
+                        <h4 className="text-fg font-bold text-sm uppercase tracking-tight">{module.title}</h4>
+                        <span className="text-fg-subtle text-xs font-bold whitespace-nowrap">{count('curriculum.hours', module.hours)}</span>
+                      </div>
+                      <ul className="flex flex-wrap gap-2 mt-2">
+                        {module.formats.map(format => {
+                          const Icon = FORMAT_ICONS[format];
+                          return (
+                            <li key={format} className="inline-flex items-center gap-1 bg-fg/5 rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-widest text-fg-muted">
+                              <Icon className="w-3 h-3" aria-hidden="true" />
+                              {t(`curriculum.formats.${format}` as MessageKey)}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                      <ol className="mt-3 space-y-1 text-fg-muted text-sm leading-relaxed list-decimal list-inside">
+                        {module.lessons.map((lesson, j) => (
+                          <li key={j}>{lesson}</li>
+                        ))}
+                      </ol>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </CourseCard>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CurriculumExplorer;
@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FAQContent } from '../content/schema';
+import { I18nProvider } from '../i18n/I18nProvider';
+import FAQAccordion from './FAQAccordion';
+import { RouterProvider } from './Router';
+
+const faq: FAQContent = {
+  title: 'Dúvidas Frequentes',
+  items: [
+    { id: 'acesso', question: 'Como recebo o acesso?', answer: 'Por e-mail, logo após o pagamento.' },
+    { id: 'certificado', question: 'Há certificado?', answer: 'Sim, ao concluir o curso.' },
+    { id: 'garantia', question: 'E se eu não gostar?', answer: 'Você tem 7 dias de garantia.', link: { label: 'Solicitar reembolso', path: '/reembolso' } },
+  ],
+};
+
+const renderFaq = (props: Partial<React.ComponentProps<typeof FAQAccordion>> = {}) =>
+  render(
+    <I18nProvider initialLocale="pt-BR">
+      <RouterProvider initialPath="/">
+        <FAQAccordion faq={faq} {...props} />
+      </RouterProvider>
+    </I18nProvider>
+  );
+
+const header = (question: string) => screen.getByRole('button', { name: question });
+
+describe('FAQAccordion', () => {
+  beforeEach(() => {
+    localStorage.setItem('locale', 'pt-BR');
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+  afterEach(() => {
+    cleanup();
+    window.location.hash = '';
+  });
+
+  it('renders every question closed, each controlling its answer region', () => {
+    renderFaq();
+    for (const item of faq.items) {
+      const button = header(item.question);
+      expect(button.getAttribute('aria-expanded')).toBe('false');
+      const region = document.getElementById(button.getAttribute('aria-controls')!)!;
+      expect(region.getAttribute('role')).toBe('region');
+      expect(region.getAttribute('aria-labelledby')).toBe(button.id);
+    }
+  });
+
+  it('opens one answer at a time by default', () => {
+    renderFaq();
+    fireEvent.click(header('Como recebo o acesso?'));
+    expect(header('Como recebo o acesso?').getAttribute('aria-expanded')).toBe('true');
+    fireEvent.click(header('Há certificado?'));
+    expect(header('Como recebo o acesso?').getAttribute('aria-expanded')).toBe('false');
+    expect(header('Há certificado?').getAttribute('aria-expanded')).toBe('true');
+    fireEvent.click(header('Há certificado?'));
+    expect(header('Há certificado?').getAttribute('aria-expanded')).toBe('false');
+  });
+
+  it('keeps several answers open with `multiple`', () => {
+    renderFaq({ multiple: true });
+    fireEvent.click(header('Como recebo o acesso?'));
+    fireEvent.click(header('Há certificado?'));
+    expect(header('Como recebo o acesso?').getAttribute('aria-expanded')).toBe('true');
+    expect(header('Há certificado?').getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('moves focus between questions with the arrow, Home and End keys', () => {
+    renderFaq();
+    const [first, second, last] = faq.items.map(item => header(item.question));
+    fireEvent.keyDown(first, { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(second);
+    fireEvent.keyDown(second, { key: 'End' });
+    expect(document.activeElement).toBe(last);
+    fireEvent.keyDown(last, { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(first);
+    fireEvent.keyDown(first, { key: 'ArrowUp' });
+    expect(document.activeElement).toBe(last);
+    fireEvent.keyDown(last, { key: 'Home' });
+    expect(document.activeElement).toBe(first);
+  });
+
+  it('links an answer to another page with the locale prefix', () => {
+    renderFaq();
+    expect(screen.getByRole('link', { name: 'Solicitar reembolso', hidden: true }).getAttribute('href')).toBe('/reembolso');
+  });
+
+  it('hides the search box below `searchFrom` questions', () => {
+    renderFaq();
+    expect(screen.queryByRole('searchbox')).toBeNull();
+  });
+
+  it('filters the questions once the FAQ is long enough to search', () => {
+    renderFaq({ faq: { ...faq, searchFrom: 3 } });
+    const search = screen.getByRole('searchbox');
+    fireEvent.change(search, { target: { value: 'garantia' } });
+    expect(screen.getAllByRole('button').map(button => button.textContent)).toEqual(['E se eu não gostar?']);
+    fireEvent.change(search, { target: { value: 'boleto' } });
+    expect(screen.queryAllByRole('button')).toEqual([]);
+    expect(screen.getByRole('status').textContent).toContain('boleto');
+  });
+
+  it('opens and scrolls to the item named in the URL hash', async () => {
+    vi.useFakeTimers();
+    window.location.hash = '#faq-certificado';
+    renderFaq();
+    expect(header('Há certificado?').getAttribute('aria-expanded')).toBe('true');
+    await act(() => vi.runAllTimersAsync());
+    expect(Element.prototype.scrollIntoView).toHaveBeenCalledWith({ behavior: 'smooth', block: 'center' });
+    vi.useRealTimers();
+  });
+
+  it('ignores a malformed hash', () => {
+    window.location.hash = '#faq-%';
+    renderFaq();
+    expect(faq.items.every(item => header(item.question).getAttribute('aria-expanded') === 'false')).toBe(true);
+  });
+});
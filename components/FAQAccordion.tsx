@@ -0,0 +1,135 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { ChevronDown, Search } from 'lucide-react';
+import type { FAQContent } from '../content/schema';
+import { useI18n } from '../i18n/I18nProvider';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { accordionFocusTarget, faqAnchor, faqItemFromHash, searchFaq } from '../lib/faq';
+import { Link } from './Router';
+
+interface FAQAccordionProps {
+  faq: FAQContent;
+  /** Lets several answers stay open at once; by default opening one closes the others. */
+  multiple?: boolean;
+}
+
+const DEFAULT_SEARCH_FROM = 5;
+
+// Accordion following the WAI-ARIA pattern: each question is a button in a
+// heading that controls its answer region, and arrow/Home/End keys move
+// between questions. `#faq-<id>` in the URL opens and scrolls to an item.
+const FAQAccordion = ({ faq, multiple = false }: FAQAccordionProps) => {
+  const { t } = useI18n();
+  const reducedMotion = usePrefersReducedMotion();
+  const [open, setOpen] = useState<ReadonlySet<string>>(() => new Set());
+  const [query, setQuery] = useState('');
+  const headers = useRef<(HTMLButtonElement | null)[]>([]);
+  const baseId = useId();
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+
+  const items = searchFaq(faq.items, query);
+  const searchable = faq.items.length >= (faq.searchFrom ?? DEFAULT_SEARCH_FROM);
+
+  const toggle = (id: string) => {
+    setOpen(prev => {
+      const next = new Set(multiple ? prev : []);
+      if (prev.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    const openFromHash = () => {
+      const item = faqItemFromHash(window.location.hash, faq.items);
+      if (!item) return;
+      setQuery('');
+      setOpen(prev => new Set(multiple ? [...prev, item.id] : [item.id]));
+      // Wait for the item to render (the search may have hidden it).
+      requestAnimationFrame(() => {
+        document.getElementById(faqAnchor(item.id))?.scrollIntoView({
+          behavior: reducedMotionRef.current ? 'auto' : 'smooth',
+          block: 'center',
+        });
+      });
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [faq.items, multiple]);
+
+  const onHeaderKeyDown = (index: number) => (e: React.KeyboardEvent) => {
+    const target = accordionFocusTarget(e.key, index, items.length);
+    if (target === null) return;
+    e.preventDefault();
+    headers.current[target]?.focus();
+  };
+
+  return (
+    <div>
+      {searchable && (
+        <div className="relative mb-10">
+          <label htmlFor={`${baseId}-search`} className="sr-only">{t('faq.search')}</label>
+          <Search className="w-5 h-5 text-fg-subtle absolute left-5 top-1/2 -translate-y-1/2" aria-hidden="true" />
+          <input
+            id={`${baseId}-search`}
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t('faq.searchPlaceholder')}
+            className="w-full bg-fg/5 border border-fg/10 rounded-full pl-14 pr-6 py-4 text-fg text-lg placeholder:text-fg-faint focus:outline-none focus:border-brand transition-colors"
+          />
+        </div>
+      )}
+
+      {items.length === 0 && (
+        <p className="text-center text-fg-subtle text-lg py-8" role="status">{t('faq.noResults', { query: query.trim() })}</p>
+      )}
+
+      {items.map((item, index) => {
+        const isOpen = open.has(item.id);
+        const headerId = `${baseId}-${item.id}-header`;
+        const panelId = `${baseId}-${item.id}-panel`;
+        return (
+          <div key={item.id} id={faqAnchor(item.id)} className="border-b border-fg/5 scroll-mt-32">
+            <h3>
+              <button
+                ref={element => { headers.current[index] = element; }}
+                id={headerId}
+                type="button"
+                aria-expanded={isOpen}
+                aria-controls={panelId}
+                onClick={() => toggle(item.id)}
+                onKeyDown={onHeaderKeyDown(index)}
+                className="w-full py-7 flex items-center justify-between text-left hover:bg-fg/5 focus-visible:bg-fg/5 focus:outline-none px-4 transition-all duration-300 rounded-lg group"
+              >
+                <span className={`text-lg font-bold pr-8 transition-colors ${isOpen ? 'text-brand' : 'text-fg'}`}>{item.question}</span>
+                <span className={`transition-transform duration-500 motion-reduce:transition-none ${isOpen ? 'rotate-180 text-brand' : 'text-fg-faint'}`} aria-hidden="true">
+                  <ChevronDown className="w-6 h-6" />
+                </span>
+              </button>
+            </h3>
+            {/* Animates to the answer's natural height, so long answers are never cut off. */}
+            <div
+              id={panelId}
+              role="region"
+              aria-labelledby={headerId}
+              className={`grid transition-all duration-500 ease-in-out motion-reduce:transition-none ${isOpen ? 'grid-rows-[1fr] opacity-100 visible' : 'grid-rows-[0fr] opacity-0 invisible'}`}
+            >
+              <div className="overflow-hidden">
+                <p className="text-fg-muted leading-relaxed whitespace-pre-line text-lg font-light pb-8 px-4">{item.answer}</p>
+                {item.link && (
+                  <p className="pb-8 px-4 -mt-4">
+                    <Link to={item.link.path} className="text-brand font-bold underline underline-offset-4">{item.link.label}</Link>
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FAQAccordion;
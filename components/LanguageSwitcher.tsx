@@ -0,0 +1,27 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import { LOCALES, LOCALE_INFO } from '../i18n/locales';
+
+const LanguageSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div role="group" aria-label={t('language.label')} className="flex items-center gap-1 bg-fg/5 border border-fg/10 rounded-full p-1">
+      {LOCALES.map(code => (
+        <button
+          key={code}
+          type="button"
+          lang={code}
+          title={LOCALE_INFO[code].label}
+          aria-pressed={code === locale}
+          onClick={() => setLocale(code)}
+          className={`px-3 py-1.5 rounded-full text-[10px] md:text-xs font-black tracking-widest transition-colors ${code === locale ? 'bg-brand text-on-brand' : 'text-fg-muted hover:text-fg'}`}
+        >
+          {LOCALE_INFO[code].short}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
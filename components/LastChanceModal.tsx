@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import type { LastChanceContent } from '../content/schema';
+import { useModalTrigger } from '../hooks/useModalTrigger';
+import { isCheckoutLink } from '../lib/checkout';
+import Button from './Button';
+import CountdownTimer from './CountdownTimer';
+import Modal from './Modal';
+import { useOfferDeadline } from './OfferDeadline';
+
+interface LastChanceModalProps {
+  content: LastChanceContent;
+  checkoutHref: string;
+  /** The course and plan checkout URLs; a click on any of them means the visitor needs no reminder. */
+  checkoutUrls: string[];
+}
+
+// "Última chance": the offer deadline and a checkout button, for visitors
+// about to leave without buying (see `lastChance` in the content file). Not
+// shown once the offer has expired or after the visitor opened the checkout.
+const LastChanceModal = ({ content, checkoutHref, checkoutUrls }: LastChanceModalProps) => {
+  const { timeLeft } = useOfferDeadline();
+  const [checkoutOpened, setCheckoutOpened] = useState(false);
+  const { open, close } = useModalTrigger({
+    id: 'last-chance',
+    triggers: content.triggers,
+    frequency: content.frequency,
+    enabled: !checkoutOpened && !timeLeft?.expired,
+  });
+
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      const link = (e.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null;
+      if (link && isCheckoutLink(link.href, checkoutUrls)) setCheckoutOpened(true);
+    };
+    document.addEventListener('click', onClick, true);
+    return () => document.removeEventListener('click', onClick, true);
+  }, [checkoutUrls]);
+
+  // The checkout opens in a new tab; the modal is out of the way when they come back.
+  useEffect(() => {
+    if (checkoutOpened) close();
+  }, [checkoutOpened, close]);
+
+  if (!open) return null;
+
+  return (
+    <Modal onClose={close} labelledBy="last-chance-title" className="rounded-card-xl p-8 md:p-12 text-center">
+      <h2 id="last-chance-title" className="text-3xl md:text-5xl font-black mb-4 uppercase tracking-tighter text-fg">{content.title}</h2>
+      <p className="text-fg-muted text-lg leading-relaxed mb-8">{content.text}</p>
+      <CountdownTimer />
+      <Button href={checkoutHref} trackAs="last-chance" className="w-full">{content.ctaLabel}</Button>
+      <button type="button" onClick={close} className="mt-6 text-sm font-bold text-fg-subtle hover:text-fg underline underline-offset-4 transition-colors">
+        {content.dismissLabel}
+      </button>
+    </Modal>
+  );
+};
+
+export default LastChanceModal;
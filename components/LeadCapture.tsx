@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import type { LeadCaptureContent, ModalFrequencyContent, ModalTriggerContent } from '../content/schema';
+import { track } from '../lib/analytics';
+import { LeadAdapter, LeadErrors, LeadInput, normalizeLead, submitLead, validateLead } from '../lib/leads';
+import { formatInternationalPhone, formatPhone } from '../lib/phone';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages';
+import { useModalTrigger } from '../hooks/useModalTrigger';
+import Modal from './Modal';
+
+interface LeadCaptureFormProps {
+  content: LeadCaptureContent;
+  adapter: LeadAdapter;
+  source: string;
+}
+
+interface LeadCaptureProps {
+  content: LeadCaptureContent;
+  adapter: LeadAdapter;
+}
+
+type Status = 'idle' | 'submitting' | 'error' | 'success';
+
+const EMPTY_LEAD: LeadInput = { name: '', email: '', whatsapp: '' };
+const EXIT_INTENT_TRIGGERS: ModalTriggerContent[] = [{ type: 'exit-intent' }];
+const EXIT_INTENT_FREQUENCY: ModalFrequencyContent = { maxShows: 1, periodHours: 24 };
+
+const inputStyles = "w-full bg-fg/5 border rounded-card-sm px-6 py-4 text-fg text-lg placeholder:text-fg-faint focus:outline-none focus:border-brand transition-colors";
+
+export const LeadCaptureForm = ({ content, adapter, source }: LeadCaptureFormProps) => {
+  const [values, setValues] = useState<LeadInput>(EMPTY_LEAD);
+  const [errors, setErrors] = useState<LeadErrors>({});
+  const [status, setStatus] = useState<Status>('idle');
+  // Honeypot: hidden from people, but bots fill every field they find.
+  const [website, setWebsite] = useState('');
+  const { t, info } = useI18n();
+  const { phoneFormat } = info;
+
+  const update = (field: keyof LeadInput) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const format = phoneFormat === 'br' ? formatPhone : formatInternationalPhone;
+    const value = field === 'whatsapp' ? format(e.target.value) : e.target.value;
+    setValues(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const submit = async () => {
+    const found = validateLead(values, phoneFormat);
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+
+    if (website) {
+      setStatus('success');
+      return;
+    }
+    setStatus('submitting');
+    try {
+      await submitLead(adapter, normalizeLead(values, source, phoneFormat));
+      setStatus('success');
+      track('lead', { source });
+    } catch {
+      setStatus('error');
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (status !== 'submitting') submit();
+  };
+
+  if (status === 'success') {
+    return (
+      <div className="text-center py-8" role="status">
+        <CheckCircle className="w-16 h-16 text-brand mx-auto mb-6" />
+        <h3 className="text-2xl md:text-3xl font-black uppercase text-fg mb-4">{content.successTitle}</h3>
+        <p className="text-fg-muted text-lg">{content.successMessage}</p>
+      </div>
+    );
+  }
+
+  const field = (name: keyof LeadInput, label: MessageKey, props: React.InputHTMLAttributes<HTMLInputElement>) => (
+    <div>
+      <label htmlFor={`lead-${source}-${name}`} className="block text-xs font-bold uppercase tracking-widest text-fg-subtle mb-2">{t(label)}</label>
+      <input
+        id={`lead-${source}-${name}`}
+        name={name}
+        value={values[name]}
+        onChange={update(name)}
+        aria-invalid={Boolean(errors[name])}
+        aria-describedby={errors[name] ? `lead-${source}-${name}-error` : undefined}
+        className={`${inputStyles} ${errors[name] ? 'border-danger' : 'border-fg/10'}`}
+        {...props}
+      />
+      {errors[name] && (
+        <p id={`lead-${source}-${name}-error`} className="text-danger text-sm mt-2">{t(errors[name]!)}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="space-y-6 text-left">
+      {field('name', 'lead.name', { type: 'text', autoComplete: 'name', placeholder: t('lead.namePlaceholder') })}
+      {field('email', 'lead.email', { type: 'email', autoComplete: 'email', placeholder: t('lead.emailPlaceholder') })}
+      {field('whatsapp', 'lead.whatsapp', {
+        type: 'tel',
+        autoComplete: phoneFormat === 'br' ? 'tel-national' : 'tel',
+        inputMode: phoneFormat === 'br' ? 'numeric' : 'tel',
+        placeholder: t('lead.whatsappPlaceholder'),
+      })}
+
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor={`lead-${source}-website`}>Website</label>
+        <input id={`lead-${source}-website`} name="website" tabIndex={-1} autoComplete="off" value={website} onChange={e => setWebsite(e.target.value)} />
+      </div>
+
+      {status === 'error' && (
+        <p className="text-danger text-center font-bold" role="alert">
+          {t('lead.submitError')}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === 'submitting'}
+        className="btn-shine w-full inline-flex items-center justify-center gap-3 px-10 py-5 rounded-button font-black text-lg transition-all duration-300 bg-brand text-on-brand hover:bg-brand-light disabled:opacity-60 disabled:cursor-wait uppercase tracking-tighter"
+      >
+        {status === 'submitting' && <Loader2 className="w-5 h-5 animate-spin" />}
+        {status === 'error' ? t('lead.retry') : content.submitLabel}
+      </button>
+      <p className="text-center text-fg-faint text-sm">{content.privacyNote}</p>
+    </form>
+  );
+};
+
+export const LeadCaptureSection = ({ content, adapter }: LeadCaptureProps) => (
+  <section id="contato" className="py-24 md:py-40 px-4 bg-page">
+    <div className="max-w-2xl mx-auto text-center relative">
+      <h2 className="text-4xl md:text-6xl font-black mb-6 uppercase tracking-tight text-fg leading-tight">{content.title}</h2>
+      <p className="text-fg-muted text-xl leading-relaxed mb-12 font-light">{content.subtitle}</p>
+      <div className="bg-surface rounded-card-xl p-8 md:p-14 border border-fg/5 relative">
+        <LeadCaptureForm content={content} adapter={adapter} source="inline" />
+      </div>
+    </div>
+  </section>
+);
+
+// Exit intent: on desktop the pointer leaves through the top of the viewport;
+// on touch screens a fast scroll up or the back button. Shown at most once
+// every 24 hours, and never over another modal.
+export const ExitIntentLeadModal = ({ content, adapter }: LeadCaptureProps) => {
+  const { open, close } = useModalTrigger({ id: 'lead', triggers: EXIT_INTENT_TRIGGERS, frequency: EXIT_INTENT_FREQUENCY });
+
+  if (!open) return null;
+
+  return (
+    <Modal onClose={close} labelledBy="lead-modal-title" className="rounded-card-xl p-8 md:p-12">
+      <h2 id="lead-modal-title" className="text-3xl md:text-4xl font-black mb-4 uppercase tracking-tight text-fg text-center">{content.title}</h2>
+      <p className="text-fg-muted text-lg leading-relaxed mb-8 text-center">{content.subtitle}</p>
+      <LeadCaptureForm content={content} adapter={adapter} source="exit-intent" />
+    </Modal>
+  );
+};
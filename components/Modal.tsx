@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ModalProps {
+  onClose: () => void;
+  /** Id of the heading that names the dialog. */
+  labelledBy: string;
+  children: React.ReactNode;
+  /** Extra classes for the panel, e.g. its padding and corner radius. */
+  className?: string;
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Every dialog on the site goes through here. It is rendered next to the app
+// root, which is made inert while it is open, so clicks, Tab and screen readers
+// all stay inside; Tab also wraps around within it. Esc or a click on the
+// backdrop closes it, and focus goes back to where it was. Render it only while
+// open: the prerendered page never has one.
+const Modal = ({ onClose, labelledBy, children, className = '' }: ModalProps) => {
+  const { t } = useI18n();
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    const root = document.getElementById('root');
+    root?.setAttribute('inert', '');
+    dialogRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      root?.removeAttribute('inert');
+      previous?.focus();
+    };
+  }, [onClose]);
+
+  const trapFocus = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const focusable: HTMLElement[] = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === dialogRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[350] flex items-center justify-center p-4 bg-page/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        tabIndex={-1}
+        className={`relative w-full max-w-xl bg-surface border border-fg/10 max-h-full overflow-y-auto focus:outline-none ${className}`}
+        onClick={e => e.stopPropagation()}
+        onKeyDown={trapFocus}
+      >
+        <button onClick={onClose} className="absolute top-6 right-6 text-fg-subtle hover:text-fg transition-colors" aria-label={t('common.close')}>
+          <X className="w-6 h-6" />
+        </button>
+        {children}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default Modal;
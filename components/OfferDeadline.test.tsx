@@ -0,0 +1,35 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useCountdown } from './OfferDeadline';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+describe('useCountdown', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('waits for the deadline to be resolved', () => {
+    const { result } = renderHook(() => useCountdown(null));
+    expect(result.current).toBeNull();
+  });
+
+  it('ticks every second', () => {
+    const { result } = renderHook(() => useCountdown(NOW + 90_000));
+    expect(result.current).toEqual({ hours: 0, minutes: 1, seconds: 30, expired: false });
+    act(() => vi.advanceTimersByTime(1_000));
+    expect(result.current).toEqual({ hours: 0, minutes: 1, seconds: 29, expired: false });
+    act(() => vi.advanceTimersByTime(29_000));
+    expect(result.current).toEqual({ hours: 0, minutes: 1, seconds: 0, expired: false });
+  });
+
+  it('stops at zero and clears its timer', () => {
+    const { result } = renderHook(() => useCountdown(NOW + 2_000));
+    act(() => vi.advanceTimersByTime(5_000));
+    expect(result.current).toEqual({ hours: 0, minutes: 0, seconds: 0, expired: true });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
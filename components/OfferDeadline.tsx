@@ -0,0 +1,68 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { OfferContent } from '../content/schema';
+import { ExpiryOutcome, expiryOutcome, getTimeLeft, previewTimeLeft, resolveDeadline, TimeLeft } from '../lib/deadline';
+
+interface OfferDeadlineValue {
+  /** Null until the deadline is resolved on the client, when there is no preview. */
+  timeLeft: TimeLeft | null;
+  offer: OfferContent;
+  expiry: ExpiryOutcome;
+}
+
+interface OfferDeadlineProviderProps {
+  /** From `useOfferDeadlineState`. */
+  value: OfferDeadlineValue;
+  children?: React.ReactNode;
+}
+
+const OfferDeadlineContext = createContext<OfferDeadlineValue | null>(null);
+
+export const useCountdown = (deadline: number | null): TimeLeft | null => {
+  const [timeLeft, setTimeLeft] = useState<TimeLeft | null>(null);
+
+  useEffect(() => {
+    if (deadline === null) return;
+    const tick = () => {
+      const next = getTimeLeft(deadline);
+      setTimeLeft(next);
+      if (next.expired) clearInterval(timer);
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return timeLeft;
+};
+
+// Single source of truth for the offer deadline: the countdown, the price,
+// the checkout links, the "tempo limitado" badge and the final CTA note all
+// read from here. The page calls `useOfferDeadlineState` once, for its own
+// checkout links, and passes the value down through `OfferDeadlineProvider`.
+// The deadline depends on the clock and on localStorage, so it is resolved
+// after mount; until then the prerendered preview is shown.
+export const useOfferDeadlineState = (offer: OfferContent, storageKey: string): OfferDeadlineValue => {
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const timeLeft = useCountdown(deadline) ?? previewTimeLeft(offer.deadline);
+  const expiry = expiryOutcome(timeLeft, offer.onExpire);
+
+  useEffect(() => {
+    setDeadline(resolveDeadline(offer.deadline, storageKey));
+  }, [offer.deadline, storageKey]);
+
+  useEffect(() => {
+    if (expiry.redirectUrl) window.location.replace(expiry.redirectUrl);
+  }, [expiry.redirectUrl]);
+
+  return { timeLeft, offer, expiry };
+};
+
+export const OfferDeadlineProvider = ({ value, children }: OfferDeadlineProviderProps) => (
+  <OfferDeadlineContext.Provider value={value}>{children}</OfferDeadlineContext.Provider>
+);
+
+export const useOfferDeadline = (): OfferDeadlineValue => {
+  const value = useContext(OfferDeadlineContext);
+  if (!value) throw new Error('useOfferDeadline must be used inside an OfferDeadlineProvider');
+  return value;
+};
@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { OfferContent, OrderBumpContent, PlanContent, PricingContent } from '../content/schema';
+import { I18nProvider } from '../i18n/I18nProvider';
+import { expiryOutcome, getTimeLeft } from '../lib/deadline';
+import { checkoutPricingParams } from '../lib/pricing';
+import { OfferDeadlineProvider } from './OfferDeadline';
+import PricingPlans from './PricingPlans';
+
+const brl = (amountCents: number) => ({ amountCents, currency: 'BRL' as const });
+
+const plan = (id: string): PlanContent => ({ id, name: id, features: [], price: brl(3700), checkoutUrl: `https://pay.example.com/${id}` });
+
+const mentoria: OrderBumpContent = { id: 'mentoria', title: 'Mentoria', description: 'Encontros ao vivo.', price: brl(4700), plans: ['completo'] };
+const ebook: OrderBumpContent = { id: 'ebook', title: 'E-book', description: 'Resumo em PDF.', price: brl(990) };
+
+const pricing = (plans: PlanContent[]): PricingContent => ({
+  title: 'Oferta',
+  subtitle: '',
+  badge: '',
+  paymentNote: '',
+  plans,
+  coupons: [],
+  orderBumps: [mentoria, ebook],
+  ctaLabel: 'COMPRAR',
+  trustBadges: [],
+});
+
+const offer: OfferContent = { deadline: { type: 'evergreen', durationMinutes: 60 }, onExpire: { action: 'hide-badge' } };
+const timeLeft = getTimeLeft(Date.now() + 60_000);
+
+const renderPlans = (plans: PlanContent[]) =>
+  render(
+    <I18nProvider initialLocale="pt-BR">
+      <OfferDeadlineProvider value={{ timeLeft, offer, expiry: expiryOutcome(timeLeft, offer.onExpire) }}>
+        <PricingPlans
+          pricing={pricing(plans)}
+          checkoutHref={(plan, orderBumps) => `${plan.checkoutUrl}?${new URLSearchParams(checkoutPricingParams(undefined, orderBumps))}`}
+        />
+      </OfferDeadlineProvider>
+    </I18nProvider>
+  );
+
+const checkoutLinks = () => screen.getAllByRole('link').map(link => link.getAttribute('href'));
+
+describe('PricingPlans order bumps', () => {
+  beforeEach(() => localStorage.setItem('locale', 'pt-BR'));
+  afterEach(cleanup);
+
+  it('offers only the bumps of the single plan, unticked', () => {
+    renderPlans([plan('essencial')]);
+    const boxes = screen.getAllByRole('checkbox');
+    expect(boxes).toHaveLength(1);
+    expect((boxes[0] as HTMLInputElement).checked).toBe(false);
+    expect(checkoutLinks()).toEqual(['https://pay.example.com/essencial?']);
+    expect(screen.queryByRole('status')).toBeNull();
+  });
+
+  it('sends the ticked bumps to each plan checkout and shows the total', () => {
+    renderPlans([plan('essencial'), plan('completo')]);
+    const [ebookOnEssencial, mentoriaOnCompleto, ebookOnCompleto] = screen.getAllByRole('checkbox');
+    fireEvent.click(mentoriaOnCompleto);
+    fireEvent.click(ebookOnEssencial);
+
+    expect((ebookOnCompleto as HTMLInputElement).checked).toBe(true);
+    expect(checkoutLinks()).toEqual([
+      'https://pay.example.com/essencial?bumps=ebook',
+      'https://pay.example.com/completo?bumps=mentoria%2Cebook',
+    ]);
+    expect(screen.getAllByRole('status').map(status => status.textContent?.replace(/\s/g, ' '))).toEqual([
+      'Total com adicionais: R$ 46,90',
+      'Total com adicionais: R$ 93,90',
+    ]);
+
+    fireEvent.click(ebookOnCompleto);
+    expect(checkoutLinks()).toEqual(['https://pay.example.com/essencial?', 'https://pay.example.com/completo?bumps=mentoria']);
+  });
+});
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import type { CouponContent, Money, OrderBumpContent, PlanContent, PricingContent } from '../content/schema';
+import { useI18n } from '../i18n/I18nProvider';
+import { currencySymbol, formatAmount, formatMoney } from '../lib/money';
+import { planOrderBumps, PlanQuote, quotePlan, totalWithOrderBumps } from '../lib/pricing';
+import Button from './Button';
+import { useOfferDeadline } from './OfferDeadline';
+
+interface PricingPlansProps {
+  pricing: PricingContent;
+  /** The visitor's valid coupon, if any. */
+  coupon?: CouponContent;
+  /** The `?cupom=` code the visitor came with, valid or not. */
+  couponCode?: string | null;
+  /** Checkout link for a plan with the order bumps the visitor ticked. */
+  checkoutHref: (plan: PlanContent, orderBumps: OrderBumpContent[]) => string;
+}
+
+interface PlanPriceProps {
+  quote: PlanQuote;
+  compact?: boolean;
+}
+
+const PlanPrice = ({ quote, compact = false }: PlanPriceProps) => {
+  const { t, info } = useI18n();
+  const { price, anchorPrice, discountPercent, couponSavings, installments } = quote;
+
+  return (
+    <div className={compact ? 'mb-8' : 'mb-12'}>
+      {anchorPrice && (
+        <p className="flex items-center justify-center gap-3 text-fg-subtle font-bold uppercase tracking-widest text-sm md:text-base mb-2">
+          <span>{t('pricing.from')} <s>{formatMoney(anchorPrice, info.intl)}</s></span>
+          {discountPercent !== null && discountPercent > 0 && (
+            <span className="bg-danger text-on-danger px-3 py-1 rounded-full text-xs font-black">{t('pricing.discount', { percent: discountPercent })}</span>
+          )}
+        </p>
+      )}
+      <div className="flex items-baseline justify-center gap-2">
+        <span className={`${compact ? 'text-2xl md:text-3xl' : 'text-3xl md:text-5xl'} font-black opacity-50`}>{currencySymbol(price, info.intl)}</span>
+        <span className={`${compact ? 'text-6xl md:text-8xl' : 'text-8xl md:text-[14rem]'} font-black leading-none tracking-tighter text-glow`}>{formatAmount(price, info.intl)}</span>
+      </div>
+      {installments && (
+        <p className="mt-4 text-fg-muted font-bold uppercase tracking-widest text-sm md:text-base">
+          {t(installments.interestFree ? 'pricing.installmentsInterestFree' : 'pricing.installments', {
+            count: installments.count,
+            amount: formatMoney(installments.amount, info.intl),
+          })}
+        </p>
+      )}
+      {couponSavings && (
+        <p className="mt-3 text-success font-bold text-sm md:text-base">
+          {t('pricing.couponSavings', { savings: formatMoney(couponSavings, info.intl) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface OrderBumpsProps {
+  orderBumps: OrderBumpContent[];
+  selected: ReadonlySet<string>;
+  onToggle: (id: string) => void;
+  /** The plan's price, to show the total with the ticked add-ons. */
+  price: Money;
+}
+
+// "Sim, quero adicionar ..." checkboxes between a plan's price and its
+// checkout button; the ticked ones go to the checkout with the plan.
+const OrderBumps = ({ orderBumps, selected, onToggle, price }: OrderBumpsProps) => {
+  const { t, info } = useI18n();
+  if (orderBumps.length === 0) return null;
+  const ticked = orderBumps.filter(orderBump => selected.has(orderBump.id));
+
+  return (
+    <fieldset className="mb-8 space-y-3 text-left">
+      <legend className="sr-only">{t('pricing.orderBumps')}</legend>
+      {orderBumps.map(orderBump => (
+        <label
+          key={orderBump.id}
+          className="flex items-start gap-4 p-5 rounded-card-sm border-2 border-dashed border-brand/60 bg-brand/5 hover:bg-brand/10 cursor-pointer transition-colors"
+        >
+          <input
+            type="checkbox"
+            checked={selected.has(orderBump.id)}
+            onChange={() => onToggle(orderBump.id)}
+            className="mt-1 w-5 h-5 shrink-0 accent-brand"
+          />
+          <span>
+            <span className="block font-black text-fg">
+              {t('pricing.orderBumpAdd', { title: orderBump.title, price: formatMoney(orderBump.price, info.intl) })}
+            </span>
+            <span className="block mt-1 text-fg-muted text-sm leading-relaxed">{orderBump.description}</span>
+          </span>
+        </label>
+      ))}
+      {ticked.length > 0 && (
+        <p className="pt-2 text-center font-black text-fg text-lg" role="status">
+          {t('pricing.orderBumpTotal', { total: formatMoney(totalWithOrderBumps(price, ticked), info.intl) })}
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+// A single plan keeps the original one-offer layout; several plans are shown
+// as cards side by side.
+const PricingPlans = ({ pricing, coupon, couponCode, checkoutHref }: PricingPlansProps) => {
+  const { t } = useI18n();
+  const { fullPrice } = useOfferDeadline().expiry;
+  // Shared by every plan: an add-on ticked on one card stays ticked on the others that offer it.
+  const [selectedBumps, setSelectedBumps] = useState<ReadonlySet<string>>(() => new Set());
+  const quote = (plan: PlanContent) => quotePlan(plan, { rules: pricing.installments, coupon: fullPrice ? undefined : coupon, fullPrice });
+  const tickedBumps = (plan: PlanContent) => planOrderBumps(pricing.orderBumps, plan).filter(orderBump => selectedBumps.has(orderBump.id));
+  const toggleBump = (id: string) => {
+    setSelectedBumps(prev => {
+      const next = new Set(prev);
+      if (prev.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+  const orderBumps = (plan: PlanContent, price: Money) => (
+    <OrderBumps orderBumps={planOrderBumps(pricing.orderBumps, plan)} selected={selectedBumps} onToggle={toggleBump} price={price} />
+  );
+
+  const couponNote = couponCode && !fullPrice && (
+    <p className={`mb-10 font-bold text-sm md:text-base ${coupon ? 'text-success' : 'text-danger'}`} role="status">
+      {t(coupon ? 'pricing.couponApplied' : 'pricing.couponInvalid', { code: coupon?.code ?? couponCode })}
+    </p>
+  );
+
+  if (pricing.plans.length === 1) {
+    const [plan] = pricing.plans;
+    const planQuote = quote(plan);
+    return (
+      <>
+        {couponNote}
+        <PlanPrice quote={planQuote} />
+        {orderBumps(plan, planQuote.price)}
+        <Button
+          href={checkoutHref(plan, tickedBumps(plan))}
+          trackAs="pricing"
+          className="w-full bg-fg text-page hover:bg-fg/90 py-10 md:py-12 text-2xl md:text-4xl font-black shadow-2xl rounded-card-md"
+        >
+          {plan.ctaLabel ?? pricing.ctaLabel}
+        </Button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {couponNote}
+      <div className="grid md:grid-cols-2 gap-8 text-left">
+        {pricing.plans.map(plan => (
+          <div
+            key={plan.id}
+            className={`relative flex flex-col rounded-card-lg p-8 md:p-10 border ${plan.highlight ? 'border-brand bg-brand/5' : 'border-fg/10 bg-fg/5'}`}
+          >
+            {plan.highlight && (
+              <span className="absolute -top-4 left-1/2 -translate-x-1/2 bg-brand text-on-brand px-5 py-1.5 rounded-full font-black text-xs tracking-widest whitespace-nowrap">
+                {plan.highlight}
+              </span>
+            )}
+            <h3 className="text-2xl md:text-3xl font-black uppercase tracking-tight text-center mb-3">{plan.name}</h3>
+            {plan.description && <p className="text-fg-muted text-center mb-8">{plan.description}</p>}
+            {plan.features.length > 0 && (
+              <ul className="space-y-3 mb-10">
+                {plan.features.map((feature, i) => (
+                  <li key={i} className="flex items-start gap-3 text-fg-soft">
+                    <CheckCircle className="w-5 h-5 text-brand shrink-0 mt-0.5" />
+                    <span>{feature}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="mt-auto text-center">
+              <PlanPrice quote={quote(plan)} compact />
+              {orderBumps(plan, quote(plan).price)}
+              <Button
+                href={checkoutHref(plan, tickedBumps(plan))}
+                trackAs="pricing"
+                className={`w-full py-6 text-lg md:text-xl font-black rounded-card-sm ${plan.highlight ? '' : 'bg-fg text-page hover:bg-fg/90'}`}
+              >
+                {plan.ctaLabel ?? pricing.ctaLabel}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default PricingPlans;
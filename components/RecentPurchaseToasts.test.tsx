@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { I18nProvider } from '../i18n/I18nProvider';
+import { staticRecentPurchaseSource } from '../lib/socialProof';
+import RecentPurchaseToasts from './RecentPurchaseToasts';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const minutesBefore = (minutes: number) => new Date(NOW - minutes * 60_000).toISOString();
+
+const source = staticRecentPurchaseSource([
+  { name: 'Marcos Lima', city: 'Recife', purchasedAt: minutesBefore(12) },
+  { name: 'Ana Paula', city: 'Curitiba', purchasedAt: minutesBefore(3) },
+  { name: 'Velho', city: 'Natal', purchasedAt: minutesBefore(3 * 24 * 60) },
+]);
+
+const renderToasts = () =>
+  render(
+    <I18nProvider initialLocale="pt-BR">
+      <RecentPurchaseToasts source={source} />
+    </I18nProvider>
+  );
+
+const toast = () => screen.getByRole('status').textContent;
+
+describe('RecentPurchaseToasts', () => {
+  beforeEach(() => {
+    localStorage.setItem('locale', 'pt-BR');
+    sessionStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('shows the recent purchases one at a time, newest first, by first name only', async () => {
+    renderToasts();
+    await act(() => vi.advanceTimersByTimeAsync(8_000));
+    expect(toast()).toContain('Ana');
+    expect(toast()).not.toContain('Paula');
+    await act(() => vi.advanceTimersByTimeAsync(6_000));
+    expect(toast()).toBe('');
+    await act(() => vi.advanceTimersByTimeAsync(14_000));
+    expect(toast()).toContain('Marcos');
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+    expect(toast()).toBe('');
+  });
+
+  it('stops for the rest of the session once closed', async () => {
+    renderToasts();
+    await act(() => vi.advanceTimersByTimeAsync(8_000));
+    fireEvent.click(screen.getByRole('button'));
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+    expect(toast()).toBe('');
+
+    cleanup();
+    renderToasts();
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+    expect(toast()).toBe('');
+  });
+});
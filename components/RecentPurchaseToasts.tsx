@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, X } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+import { firstName, minutesAgo, RecentPurchase, RecentPurchaseSource } from '../lib/socialProof';
+import { readItem, writeItem } from '../lib/storage';
+
+interface RecentPurchaseToastsProps {
+  source: RecentPurchaseSource;
+}
+
+const FIRST_DELAY_MS = 8_000;
+const INTERVAL_MS = 20_000;
+const VISIBLE_MS = 6_000;
+const MAX_TOASTS = 5;
+const DISMISSED_STORAGE_KEY = 'purchase-toasts-dismissed';
+
+// "Marcos de Recife acabou de se inscrever": a few notifications, spaced out,
+// from the most recent purchases. Closing one stops them for the session.
+const RecentPurchaseToasts = ({ source }: RecentPurchaseToastsProps) => {
+  const { t } = useI18n();
+  const [current, setCurrent] = useState<RecentPurchase | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    if (dismissed || readItem('session', DISMISSED_STORAGE_KEY)) return;
+    let cancelled = false;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    source.fetchRecent().then(purchases => {
+      if (cancelled) return;
+      purchases.slice(0, MAX_TOASTS).forEach((purchase, i) => {
+        const showAt = FIRST_DELAY_MS + i * INTERVAL_MS;
+        timers.push(setTimeout(() => setCurrent(purchase), showAt));
+        timers.push(setTimeout(() => setCurrent(null), showAt + VISIBLE_MS));
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      timers.forEach(clearTimeout);
+    };
+  }, [source, dismissed]);
+
+  const dismiss = () => {
+    writeItem('session', DISMISSED_STORAGE_KEY, '1');
+    setDismissed(true);
+    setCurrent(null);
+  };
+
+  return (
+    <div className="fixed bottom-6 left-4 right-32 md:right-auto md:max-w-sm z-[150]" role="status" aria-live="polite">
+      {current && (
+        <div className="flex items-start gap-4 bg-surface-raised border border-fg/10 rounded-card-sm p-4 pr-10 shadow-2xl animate-fade-in-up motion-reduce:animate-none relative">
+          <CheckCircle className="w-6 h-6 text-brand shrink-0" aria-hidden="true" />
+          <p className="text-sm text-fg-soft leading-snug">
+            {t('purchases.joined', { name: firstName(current.name), city: current.city })}
+            <span className="block text-xs text-fg-subtle mt-1">{t('purchases.minutesAgo', { minutes: minutesAgo(current.purchasedAt) })}</span>
+          </p>
+          <button type="button" onClick={dismiss} className="absolute top-3 right-3 text-fg-subtle hover:text-fg transition-colors" aria-label={t('common.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecentPurchaseToasts;
@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import { splitLocalePrefix } from '../lib/routes';
+
+interface RouterValue {
+  /** Current path without the locale prefix, e.g. "/termos". */
+  path: string;
+  /** Goes to a full path (with its locale prefix) without reloading the page. */
+  navigate: (href: string) => void;
+}
+
+interface RouterProviderProps {
+  children?: React.ReactNode;
+  /** Path being rendered, on the server; the browser's own location otherwise. */
+  initialPath?: string;
+}
+
+interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  /** Route path without the locale prefix; the current locale's is added. */
+  to: string;
+}
+
+const RouterContext = createContext<RouterValue | null>(null);
+
+const browserPath = () => (typeof window === 'undefined' ? '/' : window.location.pathname);
+
+// History-based routing for the handful of pages the site has. Links keep
+// the visitor's locale prefix; the back button restores the previous page.
+export const RouterProvider = ({ children, initialPath }: RouterProviderProps) => {
+  const [pathname, setPathname] = useState<string>(() => initialPath ?? browserPath());
+
+  useEffect(() => {
+    const onPopState = () => setPathname(browserPath());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = useCallback((href: string) => {
+    const url = new URL(href, window.location.href);
+    if (url.pathname === window.location.pathname && url.search === window.location.search) return;
+    window.history.pushState(null, '', url);
+    setPathname(url.pathname);
+    window.scrollTo(0, 0);
+  }, []);
+
+  const value = useMemo<RouterValue>(() => ({ path: splitLocalePrefix(pathname).path, navigate }), [pathname, navigate]);
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+};
+
+export const useRouter = (): RouterValue => {
+  const value = useContext(RouterContext);
+  if (!value) throw new Error('useRouter must be used inside a RouterProvider');
+  return value;
+};
+
+/** `to` with the current locale's prefix, e.g. "/es/termos". */
+export const useHref = (to: string) => {
+  const { info } = useI18n();
+  return to === '/' ? `${info.pathPrefix}/` : `${info.pathPrefix}${to}`;
+};
+
+export const Link = ({ to, onClick, ...props }: LinkProps) => {
+  const { navigate } = useRouter();
+  const href = useHref(to);
+
+  const onLinkClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    // Let the browser handle new tabs, downloads and the like.
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || props.target) return;
+    e.preventDefault();
+    navigate(href);
+  };
+
+  return <a href={href} onClick={onLinkClick} {...props} />;
+};
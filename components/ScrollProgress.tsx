@@ -0,0 +1,19 @@
+import React, { useState } from 'react';
+import { useThrottledScroll } from '../hooks/useThrottledScroll';
+import { scrollProgress } from '../lib/scroll';
+
+const ScrollProgress = () => {
+  const [progress, setProgress] = useState(0);
+
+  useThrottledScroll(() => {
+    setProgress(scrollProgress(window.scrollY, window.innerHeight, document.documentElement.scrollHeight));
+  });
+
+  return (
+    <div className="fixed top-0 left-0 w-full h-1 z-[200]" aria-hidden="true">
+      <div className="h-full bg-brand origin-left" style={{ transform: `scaleX(${progress})` }}></div>
+    </div>
+  );
+};
+
+export default ScrollProgress;
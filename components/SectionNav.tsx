@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { useThrottledScroll } from '../hooks/useThrottledScroll';
+import { currentSection, SectionBounds } from '../lib/scroll';
+
+export interface NavSection {
+  /** Element id of the section, also its `#anchor`. */
+  id: string;
+  label: MessageKey;
+}
+
+interface SectionNavProps {
+  sections: NavSection[];
+}
+
+// A section counts as current once its top crosses this fraction of the viewport.
+const READING_LINE = 0.35;
+
+const SectionNav = ({ sections }: SectionNavProps) => {
+  const { t } = useI18n();
+  const reducedMotion = usePrefersReducedMotion();
+  const [active, setActive] = useState<string | null>(null);
+
+  useThrottledScroll(() => {
+    const bounds = sections.flatMap<SectionBounds>(({ id }) => {
+      const element = document.getElementById(id);
+      if (!element) return [];
+      const { top, bottom } = element.getBoundingClientRect();
+      return [{ id, top, bottom }];
+    });
+    setActive(currentSection(bounds, window.innerHeight * READING_LINE));
+  });
+
+  const goTo = (id: string) => (e: React.MouseEvent) => {
+    const element = document.getElementById(id);
+    if (!element) return;
+    e.preventDefault();
+    element.scrollIntoView({ behavior: reducedMotion ? 'auto' : 'smooth', block: 'start' });
+    window.history.replaceState(window.history.state, '', `#${id}`);
+  };
+
+  return (
+    <nav aria-label={t('nav.label')} className="fixed right-6 top-1/2 -translate-y-1/2 z-[150] hidden lg:block">
+      <ul className="flex flex-col items-end gap-4">
+        {sections.map(({ id, label }) => {
+          const current = id === active;
+          return (
+            <li key={id}>
+              <a href={`#${id}`} onClick={goTo(id)} aria-current={current ? 'location' : undefined} className="group flex items-center gap-3 focus:outline-none">
+                <span className={`bg-page/80 px-2 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-opacity motion-reduce:transition-none ${current ? 'opacity-100 text-brand' : 'opacity-0 text-fg-soft group-hover:opacity-100 group-focus-visible:opacity-100'}`}>
+                  {t(label)}
+                </span>
+                <span className={`block rounded-full ring-2 ring-page/60 transition-all motion-reduce:transition-none ${current ? 'w-3 h-3 bg-brand' : 'w-2 h-2 bg-fg/40 group-hover:bg-fg group-focus-visible:bg-fg'}`}></span>
+              </a>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+};
+
+export default SectionNav;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { CourseContent } from '../content/schema';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { useI18n } from '../i18n/I18nProvider';
+import { setMotionPreference } from '../lib/motion';
+import { PAGE_PATHS } from '../lib/routes';
+import ConsentManager from './ConsentManager';
+import LanguageSwitcher from './LanguageSwitcher';
+import { Link, useRouter } from './Router';
+import { useTheme } from './ThemeProvider';
+
+interface SiteLayoutProps {
+  course: CourseContent;
+  children?: React.ReactNode;
+}
+
+// The sticky header and the footer around every route.
+const SiteLayout = ({ course, children }: SiteLayoutProps) => {
+  const { t } = useI18n();
+  const { path } = useRouter();
+  const [consentPreferencesOpen, setConsentPreferencesOpen] = useState(false);
+  const reducedMotion = usePrefersReducedMotion();
+  const logoUrl = useTheme().logoUrl ?? course.logo.src;
+  const mainRef = useRef<HTMLElement>(null);
+  const firstPath = useRef(path);
+
+  // After client-side navigation, start screen readers and keyboard focus at
+  // the new page instead of the link that was clicked.
+  useEffect(() => {
+    if (path !== firstPath.current) mainRef.current?.focus({ preventScroll: true });
+  }, [path]);
+
+  return (
+    <div className="flex flex-col min-h-screen bg-page overflow-x-hidden selection:bg-brand selection:text-on-brand font-heading">
+      {/* Header */}
+      <header className="relative py-6 px-4 flex justify-center border-b border-fg/5 bg-page/80 backdrop-blur-xl sticky top-0 z-[100]">
+        <Link to="/">
+          <img
+            src={logoUrl}
+            alt={course.logo.alt}
+            width={course.logo.width}
+            height={course.logo.height}
+            className="h-8 md:h-14 w-auto drop-shadow-[0_0_15px_rgb(var(--color-brand)/0.4)]"
+          />
+        </Link>
+        <div className="absolute right-4 top-1/2 -translate-y-1/2">
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <main ref={mainRef} tabIndex={-1} className="flex-1 focus:outline-none">
+        {children}
+      </main>
+
+      {/* Footer */}
+      <footer className="py-24 px-4 bg-page border-t border-fg/5 relative z-10">
+        <div className="max-w-7xl mx-auto flex flex-col items-center gap-16">
+          <img
+            src={logoUrl}
+            alt={t('footer.logoAlt')}
+            width={course.logo.width}
+            height={course.logo.height}
+            loading="lazy"
+            decoding="async"
+            className="h-12 md:h-16 opacity-30 grayscale hover:opacity-100 hover:grayscale-0 transition-all duration-700"
+          />
+
+          <div className="flex flex-wrap justify-center gap-10 md:gap-16 text-xs md:text-sm font-bold uppercase tracking-[0.3em] text-fg-subtle text-center">
+            <Link to={PAGE_PATHS.terms} className="hover:text-brand transition-colors">{t('footer.terms')}</Link>
+            <Link to={PAGE_PATHS.privacy} className="hover:text-brand transition-colors">{t('footer.privacy')}</Link>
+            <button type="button" onClick={() => setConsentPreferencesOpen(true)} className="uppercase hover:text-brand transition-colors">
+              {t('footer.cookies')}
+            </button>
+            <Link to={PAGE_PATHS.support} className="hover:text-brand transition-colors">{t('footer.support')}</Link>
+            <button
+              type="button"
+              aria-pressed={reducedMotion}
+              onClick={() => setMotionPreference(reducedMotion ? 'full' : 'reduce')}
+              className="uppercase hover:text-brand aria-pressed:text-brand transition-colors"
+            >
+              {t('footer.reduceMotion')}
+            </button>
+          </div>
+
+          <div className="text-center">
+            <p className="text-fg-faint text-sm md:text-base font-medium">© {new Date().getFullYear()} {course.name}. {t('footer.rights')}</p>
+            <div className="mt-6 inline-flex items-center gap-4">
+              <div className="h-[1px] w-8 bg-fg/15"></div>
+              <p className="text-xs text-fg/25 uppercase tracking-[0.5em] font-black italic">{course.footer.motto}</p>
+              <div className="h-[1px] w-8 bg-fg/15"></div>
+            </div>
+          </div>
+        </div>
+      </footer>
+
+      <ConsentManager preferencesOpen={consentPreferencesOpen} onPreferencesOpenChange={setConsentPreferencesOpen} />
+    </div>
+  );
+};
+
+export default SiteLayout;
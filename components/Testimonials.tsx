@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Pause, Play, Star } from 'lucide-react';
+import type { SocialProofContent, TestimonialContent } from '../content/schema';
+import { useI18n } from '../i18n/I18nProvider';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { aggregateRating } from '../lib/socialProof';
+
+interface StarsProps {
+  rating: number;
+  label: string;
+}
+
+interface TestimonialsCarouselProps {
+  testimonials: TestimonialContent[];
+  label: string;
+}
+
+interface SocialProofSectionProps {
+  content: SocialProofContent;
+}
+
+const AUTOPLAY_MS = 7000;
+const SWIPE_THRESHOLD_PX = 50;
+
+const Stars = ({ rating, label }: StarsProps) => (
+  <span className="inline-flex gap-1" role="img" aria-label={label}>
+    {[1, 2, 3, 4, 5].map(star => (
+      <Star key={star} className={`w-5 h-5 ${star <= Math.round(rating) ? 'text-brand fill-current' : 'text-fg/25'}`} aria-hidden="true" />
+    ))}
+  </span>
+);
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+// WAI-ARIA carousel: autoplay stops while the pointer or focus is inside, can
+// be paused for good with its own button, and never runs for visitors who
+// prefer reduced motion. Swipes move one testimonial at a time.
+const TestimonialsCarousel = ({ testimonials, label }: TestimonialsCarouselProps) => {
+  const { t } = useI18n();
+  const reducedMotion = usePrefersReducedMotion();
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const swipeStart = useRef<number | null>(null);
+  const count = testimonials.length;
+  const autoplay = playing && !hovered && !focused && !reducedMotion && count > 1;
+
+  const go = (next: number) => setIndex((next + count) % count);
+
+  useEffect(() => {
+    if (!autoplay) return;
+    const timer = setInterval(() => setIndex(current => (current + 1) % count), AUTOPLAY_MS);
+    return () => clearInterval(timer);
+  }, [autoplay, count]);
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (swipeStart.current === null) return;
+    const distance = e.clientX - swipeStart.current;
+    swipeStart.current = null;
+    if (Math.abs(distance) >= SWIPE_THRESHOLD_PX) go(distance < 0 ? index + 1 : index - 1);
+  };
+
+  const onBlur = (e: React.FocusEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocused(false);
+  };
+
+  const controlStyles = "w-12 h-12 rounded-full border border-fg/10 flex items-center justify-center text-fg-muted hover:text-fg hover:border-brand transition-colors";
+
+  return (
+    <div
+      aria-roledescription="carousel"
+      aria-label={label}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onFocus={() => setFocused(true)}
+      onBlur={onBlur}
+    >
+      <div
+        className="overflow-hidden touch-pan-y"
+        onPointerDown={e => { swipeStart.current = e.clientX; }}
+        onPointerUp={onPointerUp}
+        onPointerCancel={() => { swipeStart.current = null; }}
+      >
+        <div
+          className="flex transition-transform duration-700 ease-out motion-reduce:transition-none"
+          style={{ transform: `translateX(-${index * 100}%)` }}
+          aria-live={autoplay ? 'off' : 'polite'}
+        >
+          {testimonials.map((testimonial, i) => (
+            <figure
+              key={i}
+              role="group"
+              aria-roledescription="slide"
+              aria-label={t('testimonials.slide', { index: i + 1, total: count })}
+              aria-hidden={i !== index}
+              inert={i !== index}
+              className="w-full shrink-0 px-2"
+            >
+              <div className="bg-surface rounded-card-xl p-8 md:p-14 border border-fg/5 text-center">
+                <Stars rating={testimonial.rating} label={t('testimonials.rating', { rating: testimonial.rating })} />
+                <blockquote className="mt-8 text-xl md:text-2xl text-fg-soft font-light leading-relaxed italic">“{testimonial.text}”</blockquote>
+                <figcaption className="mt-10 flex items-center justify-center gap-4">
+                  {testimonial.photo ? (
+                    <img src={testimonial.photo.src} alt={testimonial.photo.alt} width={56} height={56} loading="lazy" className="w-14 h-14 rounded-full object-cover border-2 border-brand/50" />
+                  ) : (
+                    <span className="w-14 h-14 rounded-full bg-brand/10 text-brand font-black flex items-center justify-center" aria-hidden="true">{initials(testimonial.name)}</span>
+                  )}
+                  <span className="text-left">
+                    <span className="block text-fg font-bold uppercase tracking-tight">{testimonial.name}</span>
+                    <span className="block text-fg-subtle text-sm">{t(`testimonials.roles.${testimonial.role}`)} · {testimonial.city}</span>
+                  </span>
+                </figcaption>
+              </div>
+            </figure>
+          ))}
+        </div>
+      </div>
+
+      {count > 1 && (
+        <div className="mt-10 flex items-center justify-center gap-4">
+          <button type="button" onClick={() => go(index - 1)} className={controlStyles} aria-label={t('testimonials.previous')}>
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <div className="flex gap-2">
+            {testimonials.map((_, i) => (
+              <button
+                key={i}
+                type="button"
+                onClick={() => go(i)}
+                aria-label={t('testimonials.goTo', { index: i + 1 })}
+                aria-current={i === index ? 'true' : undefined}
+                className={`h-2 rounded-full transition-all motion-reduce:transition-none ${i === index ? 'w-8 bg-brand' : 'w-2 bg-fg/20 hover:bg-fg/40'}`}
+              ></button>
+            ))}
+          </div>
+          <button type="button" onClick={() => go(index + 1)} className={controlStyles} aria-label={t('testimonials.next')}>
+            <ChevronRight className="w-6 h-6" />
+          </button>
+          {!reducedMotion && (
+            <button type="button" onClick={() => setPlaying(!playing)} className={controlStyles} aria-label={t(playing ? 'testimonials.pause' : 'testimonials.play')}>
+              {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const SocialProofSection = ({ content }: SocialProofSectionProps) => {
+  const { t, info } = useI18n();
+  const rating = aggregateRating(content);
+  const format = (value: number) => new Intl.NumberFormat(info.intl, { maximumFractionDigits: 1 }).format(value);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="text-center mb-16 px-4">
+        <h2 className="text-4xl md:text-6xl font-black text-fg leading-tight uppercase font-heading tracking-tighter">{content.title}</h2>
+        <p className="text-brand font-bold mt-4 text-lg md:text-xl max-w-3xl mx-auto uppercase tracking-widest opacity-90">{content.subtitle}</p>
+        {(rating || content.studentCount) && (
+          <div className="mt-8 flex flex-wrap items-center justify-center gap-6 text-fg-muted font-bold uppercase tracking-widest text-sm">
+            {rating && (
+              <span className="flex items-center gap-3">
+                <Stars rating={rating.average} label={t('testimonials.rating', { rating: format(rating.average) })} />
+                {t('testimonials.aggregate', { average: format(rating.average), count: format(rating.count) })}
+              </span>
+            )}
+            {content.studentCount && <span>{t('testimonials.students', { count: format(content.studentCount) })}</span>}
+          </div>
+        )}
+      </div>
+      <TestimonialsCarousel testimonials={content.testimonials} label={content.title} />
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { createContext, useContext, useEffect } from 'react';
+import { applyTheme, BUILD_THEME, Theme, ThemeName, THEMES } from '../lib/theme';
+
+interface ThemeProviderProps {
+  name: ThemeName;
+  children?: React.ReactNode;
+}
+
+const ThemeContext = createContext<Theme>(THEMES[BUILD_THEME]);
+
+// The current route's theme. Its CSS variables are already in the
+// prerendered page; after client-side navigation to a route with another
+// theme, they are swapped here.
+export const ThemeProvider = ({ name, children }: ThemeProviderProps) => {
+  const theme = THEMES[name];
+
+  useEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  return <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>;
+};
+
+/** Tokens that can't be CSS variables, such as the logo URL. */
+export const useTheme = (): Theme => useContext(ThemeContext);
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WhatsAppSupportContent } from '../content/schema';
+import { WhatsAppSupportCta } from './WhatsAppSupport';
+
+const content: WhatsAppSupportContent = {
+  enabled: true,
+  number: '5511987654321',
+  message: 'Olá! Vim da seção "{section}".',
+  schedule: { timezone: 'America/Sao_Paulo', hours: [{ days: [1, 2, 3, 4, 5], open: '09:00', close: '18:00' }] },
+  title: 'Ainda tem dúvidas?',
+  text: 'Fale com a nossa equipe.',
+  ctaLabel: 'FALAR NO WHATSAPP',
+  onlineNote: 'Estamos online agora',
+  offHoursNote: 'Fora do horário de atendimento: respondemos em até {hours} horas.',
+};
+
+const renderAt = (iso: string) => {
+  vi.setSystemTime(new Date(iso));
+  render(<WhatsAppSupportCta content={content} number={content.number!} section="Dúvidas Frequentes" />);
+};
+
+describe('WhatsAppSupportCta', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('links to the chat with the section in the message', () => {
+    renderAt('2026-10-19T15:00:00Z');
+    const link = screen.getByRole('link', { name: /FALAR NO WHATSAPP/ });
+    expect(link.getAttribute('href')).toBe(`https://wa.me/5511987654321?text=${encodeURIComponent('Olá! Vim da seção "Dúvidas Frequentes".')}`);
+  });
+
+  it('says the team is online during business hours in São Paulo', () => {
+    renderAt('2026-10-19T15:00:00Z'); // Monday 12:00
+    expect(screen.getByText('Estamos online agora')).toBeTruthy();
+  });
+
+  it('says how many hours until the team is back', () => {
+    renderAt('2026-10-19T21:00:00Z'); // Monday 18:00, closing time
+    expect(screen.getByText('Fora do horário de atendimento: respondemos em até 15 horas.')).toBeTruthy();
+  });
+
+  it('counts the weekend in the hours', () => {
+    renderAt('2026-10-24T12:00:00Z'); // Saturday 09:00
+    expect(screen.getByText('Fora do horário de atendimento: respondemos em até 48 horas.')).toBeTruthy();
+  });
+});
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { MessageCircle } from 'lucide-react';
+import type { BusinessHours, WhatsAppSupportContent } from '../content/schema';
+import { hoursUntilOpen, isWithinBusinessHours, supportChatLink } from '../lib/whatsapp';
+import Button from './Button';
+
+interface WhatsAppSupportCtaProps {
+  content: WhatsAppSupportContent;
+  number: string;
+  /** Where the visitor is on the page; goes into the pre-filled message. */
+  section: string;
+}
+
+// The clock is read after mount, so prerendered HTML doesn't carry the build
+// time's opening hours status.
+const useBusinessHours = (schedule: BusinessHours) => {
+  const [now, setNow] = useState<Date | null>(null);
+
+  useEffect(() => {
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!now) return { online: false, hoursUntilOpen: null };
+  const online = isWithinBusinessHours(schedule, now);
+  return { online, hoursUntilOpen: online ? 0 : hoursUntilOpen(schedule, now) };
+};
+
+export const WhatsAppSupportCta = ({ content, number, section }: WhatsAppSupportCtaProps) => {
+  const { online, hoursUntilOpen } = useBusinessHours(content.schedule);
+
+  return (
+    <div className="mt-16 text-center">
+      <h3 className="text-2xl md:text-4xl font-black uppercase text-fg tracking-tight mb-4">{content.title}</h3>
+      <p className="text-fg-muted text-lg md:text-xl font-light mb-10 max-w-2xl mx-auto">{content.text}</p>
+      <Button href={supportChatLink(number, content.message, section)} variant="whatsapp" trackAs={section} trackEvent="whatsapp_click" className="gap-3">
+        <MessageCircle className="w-6 h-6" /> {content.ctaLabel}
+      </Button>
+      <p className="mt-6 flex items-center justify-center gap-2 text-sm font-bold uppercase tracking-widest text-fg-subtle">
+        {online ? (
+          <>
+            <span className="w-2 h-2 rounded-full bg-success"></span>
+            {content.onlineNote}
+          </>
+        ) : hoursUntilOpen !== null && (
+          content.offHoursNote.replace('{hours}', String(hoursUntilOpen))
+        )}
+      </p>
+    </div>
+  );
+};
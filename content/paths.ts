@@ -0,0 +1,35 @@
+// Dotted paths into the content tree, e.g. "hero.ctaLabel" or "faq.items.0.answer".
+
+const segments = (path: string) => path.split('.');
+
+export const hasPath = (root: unknown, path: string): boolean => {
+  let node = root;
+  for (const key of segments(path)) {
+    if (typeof node !== 'object' || node === null || !(key in node)) return false;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return true;
+};
+
+export const getPath = (root: unknown, path: string): unknown =>
+  segments(path).reduce<unknown>(
+    (node, key) => (typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[key] : undefined),
+    root
+  );
+
+/** Returns a copy of `root` with `value` at `path`, sharing every untouched branch. */
+export const setPath = <T>(root: T, path: string, value: unknown): T => {
+  const [key, ...rest] = segments(path);
+  const node = root as unknown as Record<string, unknown>;
+  const next = rest.length === 0 ? value : setPath(node[key], rest.join('.'), value);
+  if (Array.isArray(node)) {
+    const copy = [...node];
+    copy[Number(key)] = next;
+    return copy as unknown as T;
+  }
+  return { ...node, [key]: next } as T;
+};
+
+/** Applies several `setPath`s, e.g. the overrides of an experiment variant or a landing. */
+export const setPaths = <T>(root: T, values: Record<string, unknown>): T =>
+  Object.entries(values).reduce((next, [path, value]) => setPath(next, path, value), root);
@@ -0,0 +1,66 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { ContentValidationError, parseCourseContent } from './schema';
+
+const CONTENT_FILES = ['course.json', 'course.es.json', 'course.en.json'];
+
+const load = (file: string) => JSON.parse(fs.readFileSync(path.join(__dirname, file), 'utf-8'));
+
+const issuesOf = (value: unknown) => {
+  try {
+    parseCourseContent(value, 'test content');
+  } catch (err) {
+    expect(err).toBeInstanceOf(ContentValidationError);
+    return (err as ContentValidationError).issues;
+  }
+  throw new Error('expected the content to be rejected');
+};
+
+describe('parseCourseContent', () => {
+  it.each(CONTENT_FILES)('accepts %s', file => {
+    const content = load(file);
+    expect(parseCourseContent(content, file)).toBe(content);
+  });
+
+  it('reports the path of an invalid field', () => {
+    const content = load('course.json');
+    content.pricing.plans[0].price.amountCents = 37.5;
+    expect(issuesOf(content)).toEqual([{ path: 'pricing.plans[0].price.amountCents', message: expect.stringContaining('positive integer') }]);
+  });
+
+  it('reports missing required fields', () => {
+    const content = load('course.json');
+    delete content.guarantee.seal.width;
+    expect(issuesOf(content).map(issue => issue.path)).toEqual(['guarantee.seal.width']);
+  });
+
+  it('requires at least one module per curriculum area', () => {
+    const content = load('course.json');
+    content.modules.items[2].modules = [];
+    expect(issuesOf(content)).toEqual([{ path: 'modules.items[2].modules', message: expect.stringContaining('at least 1') }]);
+  });
+
+  it('requires a WhatsApp number while support is enabled', () => {
+    const content = load('course.json');
+    content.support.whatsapp.enabled = true;
+    delete content.support.whatsapp.number;
+    expect(issuesOf(content)).toEqual([{ path: 'support.whatsapp.number', message: expect.stringContaining('enabled') }]);
+
+    content.support.whatsapp.number = '5511987654321';
+    expect(parseCourseContent(content)).toBe(content);
+  });
+
+  it('runs the cross-field checks once the shape is valid', () => {
+    const content = load('course.json');
+    content.faq.items[1].id = content.faq.items[0].id;
+    content.pricing.orderBumps = [
+      { id: 'ebook', title: 'E-book', description: '...', price: { amountCents: 990, currency: 'BRL' }, plans: ['nope'] },
+    ];
+    expect(issuesOf(content).map(issue => issue.path).sort()).toEqual(['faq.items[1].id', 'pricing.orderBumps[0].plans[0]']);
+  });
+
+  it('names the source in the error message', () => {
+    expect(() => parseCourseContent({}, 'content/outro-curso.json')).toThrow(/^Invalid content\/outro-curso\.json:/);
+  });
+});
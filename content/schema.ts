@@ -0,0 +1,940 @@
+import { getPath, hasPath } from './paths';
+import { isValidPhone } from '../lib/phone';
+import { PAGE_PATHS } from '../lib/routes';
+import { THEME_NAMES, ThemeName } from '../lib/theme';
+
+// --- Course Content Schema ---
+//
+// Everything the sales page says about an offer lives in a content file
+// (see content/course.json). This module describes its shape and validates it,
+// both at build time (plugins/courseContent.ts) and when it is loaded.
+
+export const ICON_NAMES = [
+  'ShieldCheck',
+  'BookOpen',
+  'Zap',
+  'Globe',
+  'Users',
+  'Plus',
+  'UserCheck',
+  'Star',
+] as const;
+
+export type IconName = typeof ICON_NAMES[number];
+
+export const TESTIMONIAL_ROLES = ['pastor', 'teacher', 'leader', 'student', 'member'] as const;
+
+/** Labelled through the `testimonials.roles.*` messages ("teacher" is an EBD teacher). */
+export type TestimonialRole = typeof TESTIMONIAL_ROLES[number];
+
+export const MODULE_FORMATS = ['video', 'pdf'] as const;
+
+/** Labelled through the `curriculum.formats.*` messages. */
+export type ModuleFormat = typeof MODULE_FORMATS[number];
+
+export interface ImageContent {
+  src: string;
+  alt: string;
+  /** Intrinsic size in pixels, so the browser reserves the space before the image loads. */
+  width?: number;
+  height?: number;
+}
+
+/** A content photo, whose size has to be known. */
+export interface SizedImageContent extends ImageContent {
+  width: number;
+  height: number;
+}
+
+export interface Money {
+  /** Amount in integer cents, e.g. 3700 for R$ 37,00. */
+  amountCents: number;
+  currency: 'BRL';
+}
+
+export interface HeroContent {
+  eyebrow: string;
+  titleLead: string;
+  titleHighlight: string;
+  subtitleLead: string;
+  subtitleHighlight: string;
+  description: string;
+  badges: string[];
+  ctaLabel: string;
+  ctaNote: string;
+}
+
+export interface PainContent {
+  title: string;
+  points: string[];
+  quoteLead: string;
+  quoteHighlight: string;
+  quoteTail: string;
+}
+
+export interface BenefitsContent {
+  title: string;
+  subtitle: string;
+  items: string[];
+}
+
+export interface CurriculumModuleContent {
+  /** Unique across the whole curriculum. */
+  id: string;
+  title: string;
+  formats: ModuleFormat[];
+  /** Estimated study time; may be fractional, e.g. 1.5. */
+  hours: number;
+  lessons: string[];
+}
+
+/** One curriculum area, shown as a card that expands into its modules. */
+export interface ModuleContent {
+  icon: IconName;
+  title: string;
+  description: string;
+  modules: CurriculumModuleContent[];
+}
+
+export interface ModulesContent {
+  title: string;
+  subtitle: string;
+  items: ModuleContent[];
+}
+
+export interface AudienceContent {
+  titleLead: string;
+  titleHighlight: string;
+  items: string[];
+  ctaLabel: string;
+  image: SizedImageContent;
+}
+
+export interface TrustBadge {
+  icon: IconName;
+  label: string;
+}
+
+export interface PlanContent {
+  id: string;
+  name: string;
+  description?: string;
+  /** What the plan includes, listed on its card when there are several plans. */
+  features: string[];
+  price: Money;
+  /** "De R$ ..." price shown struck through; the discount percentage is derived from it. */
+  anchorPrice?: Money;
+  checkoutUrl: string;
+  /** Defaults to `pricing.ctaLabel`. */
+  ctaLabel?: string;
+  /** Ribbon for the recommended plan, e.g. "MAIS ESCOLHIDO". */
+  highlight?: string;
+}
+
+export interface InstallmentRules {
+  /** Most installments offered, e.g. 12. */
+  maxCount: number;
+  /** Installment counts up to this one carry no interest. */
+  interestFreeCount: number;
+  /** Monthly interest above that, in basis points (299 = 2,99% a.m.), compounded. */
+  monthlyInterestBps: number;
+  /** Smallest installment allowed; fewer installments are offered below it. */
+  minInstallment?: Money;
+}
+
+export type CouponDiscount =
+  | { type: 'percent'; percent: number }
+  | { type: 'amount'; amount: Money };
+
+export interface CouponContent {
+  /** Code typed in `?cupom=`; matched case-insensitively. */
+  code: string;
+  discount: CouponDiscount;
+  /** ISO 8601 date after which the coupon is ignored. */
+  expiresAt?: string;
+}
+
+export interface OrderBumpContent {
+  /** Id of the order bump in CartPanda; sent to the checkout in `?bumps=` when ticked. */
+  id: string;
+  /** What the add-on is, e.g. "Mentoria em grupo". */
+  title: string;
+  description: string;
+  /** Added to the plan's price; coupons don't apply to it. */
+  price: Money;
+  /** Ids of the plans it is offered with; every plan when left out. */
+  plans?: string[];
+}
+
+export interface PricingContent {
+  title: string;
+  subtitle: string;
+  badge: string;
+  paymentNote: string;
+  /** One plan keeps the single-offer layout; several are shown side by side. */
+  plans: PlanContent[];
+  /** Without rules, no installment price is shown. */
+  installments?: InstallmentRules;
+  coupons: CouponContent[];
+  /** Add-ons offered as checkboxes above a plan's checkout button. */
+  orderBumps: OrderBumpContent[];
+  ctaLabel: string;
+  trustBadges: TrustBadge[];
+}
+
+export type DeadlineContent =
+  /** Same deadline for every visitor, as an ISO 8601 date. */
+  | { type: 'fixed'; expiresAt: string }
+  /** Per-visitor window starting on the first page view. */
+  | { type: 'evergreen'; durationMinutes: number };
+
+export type ExpiryContent =
+  /** Every plan goes back to its `anchorPrice`. */
+  | { action: 'show-full-price' }
+  | { action: 'hide-badge' }
+  | { action: 'redirect'; url: string };
+
+export interface OfferContent {
+  deadline: DeadlineContent;
+  onExpire: ExpiryContent;
+}
+
+export interface GuaranteeContent {
+  seal: SizedImageContent;
+  title: string;
+  text: string;
+  badge: string;
+  /** Days after the purchase date a refund can be requested through `/reembolso`. */
+  refundWindowDays: number;
+}
+
+export interface FAQEntry {
+  /** Slug for deep links: "certificado" is opened by `#faq-certificado`. */
+  id: string;
+  question: string;
+  answer: string;
+  /** Page of the site shown as a link under the answer, e.g. the refund form. */
+  link?: FAQLinkContent;
+}
+
+export interface FAQLinkContent {
+  label: string;
+  /** A page path such as "/reembolso"; the visitor's locale prefix is added. */
+  path: string;
+}
+
+export interface FAQContent {
+  title: string;
+  items: FAQEntry[];
+  /** Shows the search box once the FAQ has at least this many questions; 5 by default. */
+  searchFrom?: number;
+}
+
+export interface LeadCaptureContent {
+  /** Inline section after the FAQ, or a modal shown on exit intent. */
+  mode: 'inline' | 'exit-intent';
+  title: string;
+  subtitle: string;
+  submitLabel: string;
+  successTitle: string;
+  successMessage: string;
+  privacyNote: string;
+}
+
+/** What opens a modal; the first trigger to fire wins. */
+export type ModalTriggerContent =
+  /** Mouse leaving through the top of the window; on touch screens, a fast flick back up or the back button. */
+  | { type: 'exit-intent' }
+  | { type: 'time-on-page'; seconds: number }
+  /** The section with this id scrolled out through the top of the viewport. */
+  | { type: 'scroll-past'; section: string };
+
+export interface ModalFrequencyContent {
+  /** Times the modal may open for a visitor within `periodHours`. */
+  maxShows: number;
+  periodHours: number;
+}
+
+export interface LastChanceContent {
+  /** Empty to turn the modal off. */
+  triggers: ModalTriggerContent[];
+  frequency: ModalFrequencyContent;
+  title: string;
+  text: string;
+  ctaLabel: string;
+  dismissLabel: string;
+}
+
+export interface BusinessHoursRange {
+  /** Days of the week, 0 = Sunday. */
+  days: number[];
+  /** "HH:MM", in the schedule's timezone. */
+  open: string;
+  close: string;
+}
+
+export interface BusinessHours {
+  /** IANA timezone, e.g. "America/Sao_Paulo". */
+  timezone: string;
+  hours: BusinessHoursRange[];
+}
+
+export interface WhatsAppSupportContent {
+  /** Shows the support block under the FAQ and on `/suporte`. */
+  enabled: boolean;
+  /** Full number with country code, digits only ("5511987654321"); required while `enabled`. */
+  number?: string;
+  /** Pre-filled chat message; `{section}` is replaced by where the visitor clicked. */
+  message: string;
+  schedule: BusinessHours;
+  title: string;
+  text: string;
+  ctaLabel: string;
+  onlineNote: string;
+  /** Shown outside business hours; `{hours}` is replaced by the hours until support opens. */
+  offHoursNote: string;
+}
+
+export interface SupportContent {
+  whatsapp: WhatsAppSupportContent;
+}
+
+export interface FinalCtaContent {
+  titleLead: string;
+  titleHighlight: string;
+  quote: string;
+  ctaLabel: string;
+  /** Shown while the offer runs; `{time}` is replaced by the time left. */
+  urgencyNote: string;
+  expiredNote: string;
+}
+
+export interface FooterContent {
+  motto: string;
+}
+
+export interface FabContent {
+  label: string;
+  title: string;
+}
+
+export interface TestimonialContent {
+  name: string;
+  city: string;
+  role: TestimonialRole;
+  photo?: ImageContent;
+  /** Whole stars, 1 to 5. */
+  rating: number;
+  text: string;
+}
+
+export interface AggregateRatingContent {
+  /** Average stars, 1 to 5. */
+  average: number;
+  count: number;
+}
+
+export interface SocialProofContent {
+  title: string;
+  subtitle: string;
+  /** Shown as "+1.200 alunos" when set. */
+  studentCount?: number;
+  /** Real students only; the section is hidden while empty. */
+  testimonials: TestimonialContent[];
+  /** Overall rating, e.g. from a review platform. Defaults to the testimonials' average. */
+  rating?: AggregateRatingContent;
+}
+
+export interface LegalSectionContent {
+  heading: string;
+  paragraphs: string[];
+}
+
+export interface LegalDocumentContent {
+  title: string;
+  sections: LegalSectionContent[];
+}
+
+/** Termos de Uso and Política de Privacidade, opened from the footer. */
+export interface LegalContent {
+  /** Raising it asks every visitor for cookie consent again. Must match across locales. */
+  version: number;
+  /** When the current version took effect. */
+  updatedAt: string;
+  terms: LegalDocumentContent;
+  privacy: LegalDocumentContent;
+}
+
+/** The `/obrigado` page checkout sends buyers back to. */
+export interface ThankYouContent {
+  title: string;
+  text: string;
+  /** What happens next, e.g. where the access e-mail comes from. */
+  steps: string[];
+}
+
+/** A variant of the sales page at `/<id>`, e.g. `/pastores`, with some copy replaced. */
+export interface LandingContent {
+  id: string;
+  /** Theme for this landing instead of the build's, e.g. "light". */
+  theme?: ThemeName;
+  /** Content values this landing replaces, keyed by dotted path ("hero.subtitleLead"). */
+  overrides: Record<string, unknown>;
+}
+
+export interface SeoContent {
+  /** Page title, also used on link previews. */
+  title: string;
+  /** Meta description and link preview text. */
+  description: string;
+  /** Organization that offers the course, for structured data. */
+  provider: string;
+}
+
+export interface ExperimentVariantContent {
+  id: string;
+  /** Relative share of visitors, e.g. 1 and 1 for a 50/50 split. */
+  weight: number;
+  /** Content values this variant replaces, keyed by dotted path ("hero.ctaLabel"). */
+  overrides: Record<string, unknown>;
+}
+
+export interface ExperimentContent {
+  id: string;
+  variants: ExperimentVariantContent[];
+}
+
+export interface CourseContent {
+  id: string;
+  name: string;
+  logo: ImageContent;
+  checkoutUrl: string;
+  hero: HeroContent;
+  pain: PainContent;
+  benefits: BenefitsContent;
+  modules: ModulesContent;
+  audience: AudienceContent;
+  pricing: PricingContent;
+  offer: OfferContent;
+  guarantee: GuaranteeContent;
+  faq: FAQContent;
+  leadCapture: LeadCaptureContent;
+  lastChance: LastChanceContent;
+  support: SupportContent;
+  finalCta: FinalCtaContent;
+  footer: FooterContent;
+  fab: FabContent;
+  socialProof: SocialProofContent;
+  legal: LegalContent;
+  thankYou: ThankYouContent;
+  seo: SeoContent;
+  landings: LandingContent[];
+  experiments: ExperimentContent[];
+}
+
+// --- Validation ---
+
+export interface ContentIssue {
+  path: string;
+  message: string;
+}
+
+export class ContentValidationError extends Error {
+  readonly issues: ContentIssue[];
+
+  constructor(issues: ContentIssue[], source = 'course content') {
+    super(
+      `Invalid ${source}:\n` +
+      issues.map(issue => `  - ${issue.path || '(root)'}: ${issue.message}`).join('\n')
+    );
+    this.name = 'ContentValidationError';
+    this.issues = issues;
+  }
+}
+
+type Check = (value: unknown, path: string, issues: ContentIssue[]) => void;
+
+const optionalChecks = new WeakSet<Check>();
+
+/** Marks a field that may be left out of the content file. */
+const optional = (check: Check): Check => {
+  const wrapped: Check = (value, path, issues) => check(value, path, issues);
+  optionalChecks.add(wrapped);
+  return wrapped;
+};
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const text: Check = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected a string, got ${describe(value)}` });
+  } else if (value.trim() === '') {
+    issues.push({ path, message: 'must not be empty' });
+  }
+};
+
+const flag: Check = (value, path, issues) => {
+  if (typeof value !== 'boolean') issues.push({ path, message: `expected true or false, got ${describe(value)}` });
+};
+
+const url: Check = (value, path, issues) => {
+  const before = issues.length;
+  text(value, path, issues);
+  if (issues.length > before) return;
+  if (!/^https?:\/\//.test(value as string) && !(value as string).startsWith('/')) {
+    issues.push({ path, message: `expected an http(s) URL or absolute path, got "${value}"` });
+  }
+};
+
+const positiveInteger: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    issues.push({ path, message: `expected a positive integer, got ${JSON.stringify(value)}` });
+  }
+};
+
+const positiveNumber: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    issues.push({ path, message: `expected a positive number, got ${JSON.stringify(value)}` });
+  }
+};
+
+const isoDate: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}T/.test(value) || Number.isNaN(Date.parse(value))) {
+    issues.push({ path, message: `expected an ISO 8601 date-time, got ${JSON.stringify(value)}` });
+  }
+};
+
+const clockTime: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+    issues.push({ path, message: `expected a time as "HH:MM", got ${JSON.stringify(value)}` });
+  }
+};
+
+const nonNegativeInteger: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    issues.push({ path, message: `expected a non-negative integer, got ${JSON.stringify(value)}` });
+  }
+};
+
+const percentage: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 100) {
+    issues.push({ path, message: `expected a whole percentage from 1 to 100, got ${JSON.stringify(value)}` });
+  }
+};
+
+const starRating: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 5) {
+    issues.push({ path, message: `expected whole stars from 1 to 5, got ${JSON.stringify(value)}` });
+  }
+};
+
+const ratingAverage: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || value < 1 || value > 5) {
+    issues.push({ path, message: `expected an average from 1 to 5, got ${JSON.stringify(value)}` });
+  }
+};
+
+const weekday: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 6) {
+    issues.push({ path, message: `expected a weekday from 0 (Sunday) to 6, got ${JSON.stringify(value)}` });
+  }
+};
+
+const timezone: Check = (value, path, issues) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value as string });
+    if (typeof value !== 'string') throw new Error();
+  } catch {
+    issues.push({ path, message: `expected an IANA timezone, got ${JSON.stringify(value)}` });
+  }
+};
+
+const slug: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(value)) {
+    issues.push({ path, message: `expected a lowercase slug like "my-item", got ${JSON.stringify(value)}` });
+  }
+};
+
+const whatsappNumber: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !/^55\d{10,11}$/.test(value) || !isValidPhone(value)) {
+    issues.push({ path, message: `expected a Brazilian number with country code and DDD, digits only, got ${JSON.stringify(value)}` });
+  }
+};
+
+const oneOf = (allowed: readonly string[]): Check => (value, path, issues) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push({ path, message: `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}` });
+  }
+};
+
+const record: Check = (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: `expected an object, got ${describe(value)}` });
+  }
+};
+
+const list = (item: Check, { min = 1, max = Infinity } = {}): Check => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array, got ${describe(value)}` });
+    return;
+  }
+  if (value.length < min) issues.push({ path, message: `expected at least ${min} item(s), got ${value.length}` });
+  if (value.length > max) issues.push({ path, message: `expected at most ${max} item(s), got ${value.length}` });
+  value.forEach((entry, i) => item(entry, join(path, i), issues));
+};
+
+const shape = (fields: Record<string, Check>): Check => (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: `expected an object, got ${describe(value)}` });
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  for (const [key, check] of Object.entries(fields)) {
+    const fieldPath = join(path, key);
+    if (!(key in record)) {
+      if (!optionalChecks.has(check)) issues.push({ path: fieldPath, message: 'is required' });
+    } else {
+      check(record[key], fieldPath, issues);
+    }
+  }
+  for (const key of Object.keys(record)) {
+    if (!(key in fields)) issues.push({ path: join(path, key), message: 'is not a known field' });
+  }
+};
+
+/** Picks the shape to check against from the value of its `key` field. */
+const variant = (key: string, cases: Record<string, Record<string, Check>>): Check => (value, path, issues) => {
+  const tag = (value as Record<string, unknown> | null)?.[key];
+  if (typeof value !== 'object' || value === null || typeof tag !== 'string' || !(tag in cases)) {
+    oneOf(Object.keys(cases))(tag, join(path, key), issues);
+    return;
+  }
+  shape({ [key]: text, ...cases[tag] })(value, path, issues);
+};
+
+const money = shape({ amountCents: positiveInteger, currency: oneOf(['BRL']) });
+
+const image = shape({ src: url, alt: text, width: optional(positiveInteger), height: optional(positiveInteger) });
+const sizedImage = shape({ src: url, alt: text, width: positiveInteger, height: positiveInteger });
+
+const legalDocument = shape({
+  title: text,
+  sections: list(shape({ heading: text, paragraphs: list(text) })),
+});
+
+const courseContentSchema = shape({
+  id: text,
+  name: text,
+  logo: image,
+  checkoutUrl: url,
+  hero: shape({
+    eyebrow: text,
+    titleLead: text,
+    titleHighlight: text,
+    subtitleLead: text,
+    subtitleHighlight: text,
+    description: text,
+    badges: list(text, { max: 4 }),
+    ctaLabel: text,
+    ctaNote: text,
+  }),
+  pain: shape({
+    title: text,
+    points: list(text),
+    quoteLead: text,
+    quoteHighlight: text,
+    quoteTail: text,
+  }),
+  benefits: shape({ title: text, subtitle: text, items: list(text) }),
+  modules: shape({
+    title: text,
+    subtitle: text,
+    items: list(shape({
+      icon: oneOf(ICON_NAMES),
+      title: text,
+      description: text,
+      modules: list(shape({
+        id: slug,
+        title: text,
+        formats: list(oneOf(MODULE_FORMATS)),
+        hours: positiveNumber,
+        lessons: list(text),
+      })),
+    })),
+  }),
+  audience: shape({
+    titleLead: text,
+    titleHighlight: text,
+    items: list(text),
+    ctaLabel: text,
+    image: sizedImage,
+  }),
+  pricing: shape({
+    title: text,
+    subtitle: text,
+    badge: text,
+    paymentNote: text,
+    plans: list(shape({
+      id: slug,
+      name: text,
+      description: optional(text),
+      features: list(text, { min: 0 }),
+      price: money,
+      anchorPrice: optional(money),
+      checkoutUrl: url,
+      ctaLabel: optional(text),
+      highlight: optional(text),
+    })),
+    installments: optional(shape({
+      maxCount: positiveInteger,
+      interestFreeCount: positiveInteger,
+      monthlyInterestBps: nonNegativeInteger,
+      minInstallment: optional(money),
+    })),
+    coupons: list(shape({
+      code: text,
+      discount: variant('type', {
+        percent: { percent: percentage },
+        amount: { amount: money },
+      }),
+      expiresAt: optional(isoDate),
+    }), { min: 0 }),
+    orderBumps: list(shape({
+      id: slug,
+      title: text,
+      description: text,
+      price: money,
+      plans: optional(list(slug)),
+    }), { min: 0 }),
+    ctaLabel: text,
+    trustBadges: list(shape({ icon: oneOf(ICON_NAMES), label: text }), { min: 0 }),
+  }),
+  offer: shape({
+    deadline: variant('type', {
+      fixed: { expiresAt: isoDate },
+      evergreen: { durationMinutes: positiveInteger },
+    }),
+    onExpire: variant('action', {
+      'show-full-price': {},
+      'hide-badge': {},
+      redirect: { url },
+    }),
+  }),
+  guarantee: shape({ seal: sizedImage, title: text, text, badge: text, refundWindowDays: positiveInteger }),
+  faq: shape({
+    title: text,
+    items: list(shape({
+      id: slug,
+      question: text,
+      answer: text,
+      link: optional(shape({ label: text, path: oneOf(Object.values(PAGE_PATHS)) })),
+    })),
+    searchFrom: optional(positiveInteger),
+  }),
+  leadCapture: shape({
+    mode: oneOf(['inline', 'exit-intent']),
+    title: text,
+    subtitle: text,
+    submitLabel: text,
+    successTitle: text,
+    successMessage: text,
+    privacyNote: text,
+  }),
+  lastChance: shape({
+    triggers: list(variant('type', {
+      'exit-intent': {},
+      'time-on-page': { seconds: positiveInteger },
+      'scroll-past': { section: slug },
+    }), { min: 0 }),
+    frequency: shape({ maxShows: positiveInteger, periodHours: positiveInteger }),
+    title: text,
+    text,
+    ctaLabel: text,
+    dismissLabel: text,
+  }),
+  support: shape({
+    whatsapp: shape({
+      enabled: flag,
+      number: optional(whatsappNumber),
+      message: text,
+      schedule: shape({
+        timezone,
+        hours: list(shape({ days: list(weekday), open: clockTime, close: clockTime })),
+      }),
+      title: text,
+      text,
+      ctaLabel: text,
+      onlineNote: text,
+      offHoursNote: text,
+    }),
+  }),
+  finalCta: shape({
+    titleLead: text,
+    titleHighlight: text,
+    quote: text,
+    ctaLabel: text,
+    urgencyNote: text,
+    expiredNote: text,
+  }),
+  footer: shape({ motto: text }),
+  fab: shape({ label: text, title: text }),
+  socialProof: shape({
+    title: text,
+    subtitle: text,
+    studentCount: optional(positiveInteger),
+    testimonials: list(shape({
+      name: text,
+      city: text,
+      role: oneOf(TESTIMONIAL_ROLES),
+      photo: optional(image),
+      rating: starRating,
+      text,
+    }), { min: 0 }),
+    rating: optional(shape({ average: ratingAverage, count: positiveInteger })),
+  }),
+  legal: shape({
+    version: positiveInteger,
+    updatedAt: isoDate,
+    terms: legalDocument,
+    privacy: legalDocument,
+  }),
+  thankYou: shape({ title: text, text, steps: list(text) }),
+  seo: shape({ title: text, description: text, provider: text }),
+  landings: list(shape({ id: slug, theme: optional(oneOf(THEME_NAMES)), overrides: record }), { min: 0 }),
+  experiments: list(
+    shape({
+      id: text,
+      variants: list(shape({ id: text, weight: positiveInteger, overrides: record }), { min: 2 }),
+    }),
+    { min: 0 }
+  ),
+});
+
+const checkPricing = ({ pricing, offer }: CourseContent, issues: ContentIssue[]) => {
+  const planIds = new Set<string>();
+  pricing.plans.forEach((plan, i) => {
+    const path = `pricing.plans[${i}]`;
+    if (planIds.has(plan.id)) issues.push({ path: `${path}.id`, message: `duplicate plan id "${plan.id}"` });
+    planIds.add(plan.id);
+    if (plan.anchorPrice && plan.anchorPrice.amountCents <= plan.price.amountCents) {
+      issues.push({ path: `${path}.anchorPrice`, message: 'must be higher than the price' });
+    }
+    if (!plan.anchorPrice && offer.onExpire.action === 'show-full-price') {
+      issues.push({ path: `${path}.anchorPrice`, message: 'is required when offer.onExpire.action is "show-full-price"' });
+    }
+  });
+
+  const codes = new Set<string>();
+  pricing.coupons.forEach((coupon, i) => {
+    const code = coupon.code.toUpperCase();
+    if (codes.has(code)) issues.push({ path: `pricing.coupons[${i}].code`, message: `duplicate coupon code "${coupon.code}"` });
+    codes.add(code);
+  });
+
+  const orderBumpIds = new Set<string>();
+  pricing.orderBumps.forEach((orderBump, i) => {
+    const path = `pricing.orderBumps[${i}]`;
+    if (orderBumpIds.has(orderBump.id)) issues.push({ path: `${path}.id`, message: `duplicate order bump id "${orderBump.id}"` });
+    orderBumpIds.add(orderBump.id);
+    orderBump.plans?.forEach((planId, j) => {
+      if (!planIds.has(planId)) issues.push({ path: `${path}.plans[${j}]`, message: `unknown plan id "${planId}"` });
+    });
+  });
+};
+
+const checkFaq = (content: CourseContent, issues: ContentIssue[]) => {
+  const seen = new Set<string>();
+  content.faq.items.forEach((item, i) => {
+    if (seen.has(item.id)) issues.push({ path: `faq.items[${i}].id`, message: `duplicate FAQ id "${item.id}"` });
+    seen.add(item.id);
+  });
+};
+
+const checkSupport = ({ support }: CourseContent, issues: ContentIssue[]) => {
+  if (support.whatsapp.enabled && !support.whatsapp.number) {
+    issues.push({ path: 'support.whatsapp.number', message: 'is required when support.whatsapp.enabled is true' });
+  }
+};
+
+const checkCurriculum = (content: CourseContent, issues: ContentIssue[]) => {
+  const seen = new Set<string>();
+  content.modules.items.forEach((area, i) => {
+    area.modules.forEach((module, j) => {
+      const path = `modules.items[${i}].modules[${j}]`;
+      if (seen.has(module.id)) issues.push({ path: `${path}.id`, message: `duplicate module id "${module.id}"` });
+      seen.add(module.id);
+      if (new Set(module.formats).size < module.formats.length) {
+        issues.push({ path: `${path}.formats`, message: 'lists the same format twice' });
+      }
+    });
+  });
+};
+
+// Overrides must point at existing content and keep its type, so a variant or
+// landing can never render a hole (or an object where a string was expected).
+const checkOverrides = (content: CourseContent, overrides: Record<string, unknown>, path: string, issues: ContentIssue[]) => {
+  for (const [target, value] of Object.entries(overrides)) {
+    const overridePath = `${path}.overrides["${target}"]`;
+    if (target.startsWith('experiments') || target.startsWith('landings') || !hasPath(content, target)) {
+      issues.push({ path: overridePath, message: 'does not match any content field' });
+    } else if (describe(getPath(content, target)) !== describe(value)) {
+      issues.push({
+        path: overridePath,
+        message: `expected ${describe(getPath(content, target))} like the field it replaces, got ${describe(value)}`,
+      });
+    }
+  }
+};
+
+const checkLandings = (content: CourseContent, issues: ContentIssue[]) => {
+  const seen = new Set<string>();
+  const reserved = new Set(Object.values(PAGE_PATHS));
+  content.landings.forEach((landing, i) => {
+    const path = `landings[${i}]`;
+    if (seen.has(landing.id)) issues.push({ path: `${path}.id`, message: `duplicate landing id "${landing.id}"` });
+    if (reserved.has(`/${landing.id}`)) issues.push({ path: `${path}.id`, message: `"${landing.id}" is already a page of the site` });
+    seen.add(landing.id);
+    checkOverrides(content, landing.overrides, path, issues);
+  });
+};
+
+const checkExperiments = (content: CourseContent, issues: ContentIssue[]) => {
+  const seen = new Set<string>();
+  content.experiments.forEach((experiment, i) => {
+    const path = `experiments[${i}]`;
+    if (seen.has(experiment.id)) issues.push({ path: `${path}.id`, message: `duplicate experiment id "${experiment.id}"` });
+    seen.add(experiment.id);
+
+    const variantIds = new Set<string>();
+    experiment.variants.forEach((variant, j) => {
+      const variantPath = `${path}.variants[${j}]`;
+      if (variantIds.has(variant.id)) issues.push({ path: `${variantPath}.id`, message: `duplicate variant id "${variant.id}"` });
+      variantIds.add(variant.id);
+      checkOverrides(content, variant.overrides, variantPath, issues);
+    });
+  });
+};
+
+export const validateCourseContent = (value: unknown): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+  courseContentSchema(value, '', issues);
+  if (issues.length === 0) {
+    checkPricing(value as CourseContent, issues);
+    checkFaq(value as CourseContent, issues);
+    checkCurriculum(value as CourseContent, issues);
+    checkSupport(value as CourseContent, issues);
+    checkLandings(value as CourseContent, issues);
+    checkExperiments(value as CourseContent, issues);
+  }
+  return issues;
+};
+
+export const parseCourseContent = (value: unknown, source?: string): CourseContent => {
+  const issues = validateCourseContent(value);
+  if (issues.length > 0) throw new ContentValidationError(issues, source);
+  return value as CourseContent;
+};
@@ -0,0 +1,7 @@
+declare module 'virtual:course-content' {
+  /** Content for every locale, each validated at build time. */
+  export const contentByLocale: Record<import('@/i18n/locales').Locale, import('@/content/schema').CourseContent>;
+  /** Content for the default locale. */
+  const content: import('@/content/schema').CourseContent;
+  export default content;
+}
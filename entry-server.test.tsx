@@ -0,0 +1,19 @@
+import { contentByLocale } from 'virtual:course-content';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LOCALES, paths, render, renderHead, renderTheme } from './entry-server';
+
+// The same renders as `scripts/prerender.js`, so a page that throws on the
+// server fails here before it fails the build.
+describe.each(LOCALES)('server render (%s)', locale => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it.each([...paths(locale), '/404'])('renders %s', async path => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const html = await render(locale, path);
+
+    expect(html).toContain(contentByLocale[locale].name);
+    expect(renderHead(locale, path)).toMatch(/^<title>[^<]+<\/title>/);
+    expect(renderTheme(locale, path)).toContain('--color-brand');
+    expect(errors).not.toHaveBeenCalled();
+  });
+});
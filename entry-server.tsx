@@ -0,0 +1,41 @@
+import React from 'react';
+import { prerenderToNodeStream } from 'react-dom/static';
+import { contentByLocale } from 'virtual:course-content';
+import App from './App';
+import { Locale, LOCALE_INFO } from './i18n/locales';
+import { matchRoute, sitePaths } from './lib/routes';
+import { renderHeadTags, routeHeadTags } from './lib/seo';
+import { routeTheme, themeStyleTag, THEMES } from './lib/theme';
+
+export { DEFAULT_LOCALE, LOCALES, LOCALE_INFO } from './i18n/locales';
+
+const landingIds = (locale: Locale) => contentByLocale[locale].landings.map(landing => landing.id);
+
+/** Every path to prerender in a locale, without its prefix. */
+export const paths = (locale: Locale) => sitePaths(landingIds(locale));
+
+/**
+ * Renders the page markup for one locale and path; used by
+ * `scripts/prerender.js`. Waits for the lazily loaded pages, so the HTML has
+ * their content rather than the loading fallback.
+ */
+export const render = async (locale: Locale, path = '/') => {
+  const { prelude } = await prerenderToNodeStream(
+    <React.StrictMode>
+      <App locale={locale} path={`${LOCALE_INFO[locale].pathPrefix}${path}`} />
+    </React.StrictMode>
+  );
+  let html = '';
+  for await (const chunk of prelude) html += chunk;
+  return html;
+};
+
+/** Renders the title, meta tags and structured data for one locale's and path's `<head>`. */
+export const renderHead = (locale: Locale, path = '/') =>
+  renderHeadTags(
+    routeHeadTags(contentByLocale[locale], matchRoute(path, landingIds(locale)), { locale, siteUrl: process.env.SITE_URL })
+  );
+
+/** Renders the `<style>` with the theme variables for one locale's and path's page. */
+export const renderTheme = (locale: Locale, path = '/') =>
+  themeStyleTag(THEMES[routeTheme(contentByLocale[locale], matchRoute(path, landingIds(locale)))]);
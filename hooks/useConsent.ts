@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { ConsentRecord, getConsent, subscribeConsent } from '../lib/consent';
+
+/**
+ * The visitor's consent choice: null while they haven't made one, undefined
+ * until mounted (it lives in the browser, so the prerendered page can't know it).
+ */
+export const useConsent = (): ConsentRecord | null | undefined => {
+  const [consent, setConsent] = useState<ConsentRecord | null | undefined>(undefined);
+
+  useEffect(() => {
+    setConsent(getConsent());
+    return subscribeConsent(setConsent);
+  }, []);
+
+  return consent;
+};
@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { HEAD_TAG_ATTRIBUTE, HeadTags, renderHeadTags } from '../lib/seo';
+
+/**
+ * Keeps the document title and the SEO tags in `<head>` in sync with the
+ * rendered content, e.g. after a language switch. Replaces the tags the
+ * prerenderer wrote, so crawlers that run scripts see the same thing.
+ */
+export const useDocumentHead = (tags: HeadTags) => {
+  useEffect(() => {
+    document.title = tags.title;
+
+    const template = document.createElement('template');
+    template.innerHTML = renderHeadTags(tags);
+    document.head.querySelectorAll(`[${HEAD_TAG_ATTRIBUTE}]`).forEach(element => element.remove());
+    template.content.querySelectorAll(`[${HEAD_TAG_ATTRIBUTE}]`).forEach(element => document.head.appendChild(element));
+  }, [tags]);
+};
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExperimentContent } from '../content/schema';
+import { track } from '../lib/analytics';
+import { ALL_DENIED, initConsent, saveConsent } from '../lib/consent';
+import { useExperiment } from './useExperiment';
+
+vi.mock('../lib/analytics', () => ({ track: vi.fn() }));
+
+const experiments: ExperimentContent[] = [
+  {
+    id: 'hero-cta',
+    variants: [
+      { id: 'controle', weight: 1, overrides: {} },
+      { id: 'vaga', weight: 1, overrides: {} },
+    ],
+  },
+  {
+    id: 'headline',
+    variants: [
+      { id: 'controle', weight: 1, overrides: {} },
+      { id: 'dor', weight: 1, overrides: {} },
+    ],
+  },
+];
+
+describe('useExperiment', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('experiment-assignments', JSON.stringify({ 'hero-cta': 'vaga', headline: 'dor' }));
+    initConsent(1);
+    saveConsent(ALL_DENIED);
+    vi.mocked(track).mockClear();
+  });
+
+  it('returns the stored variant after mount and reports the exposure once', async () => {
+    const first = renderHook(() => useExperiment(experiments, 'hero-cta'));
+    await waitFor(() => expect(first.result.current).toBe('vaga'));
+    const second = renderHook(() => useExperiment(experiments, 'hero-cta'));
+    await waitFor(() => expect(second.result.current).toBe('vaga'));
+
+    expect(track).toHaveBeenCalledTimes(1);
+    expect(track).toHaveBeenCalledWith('experiment_exposure', { experiment: 'hero-cta', variant: 'vaga' });
+  });
+
+  it('holds the exposure until the visitor answers the cookie banner', async () => {
+    localStorage.removeItem('consent');
+    initConsent(1);
+    const { result } = renderHook(() => useExperiment(experiments, 'headline'));
+    await waitFor(() => expect(result.current).toBe('dor'));
+    expect(track).not.toHaveBeenCalled();
+
+    act(() => saveConsent({ ...ALL_DENIED, analytics: true }));
+    await waitFor(() => expect(track).toHaveBeenCalledWith('experiment_exposure', { experiment: 'headline', variant: 'dor' }));
+    expect(track).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns undefined for an experiment that is not in the content', async () => {
+    const { result } = renderHook(() => useExperiment(experiments, 'cta-color'));
+    await waitFor(() => expect(result.current).toBeUndefined());
+  });
+});
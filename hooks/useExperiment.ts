@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { CourseContent, ExperimentContent } from '../content/schema';
+import { track } from '../lib/analytics';
+import { applyVariantOverrides, Assignments, assignVariants } from '../lib/experiments';
+import { useConsent } from './useConsent';
+
+// Assign once per page view, so every hook agrees on the visitor's variants.
+const assignmentCache = new WeakMap<ExperimentContent[], Assignments>();
+const reported = new Set<string>();
+const NO_ASSIGNMENTS: Assignments = {};
+
+const assignmentsFor = (experiments: ExperimentContent[]) => {
+  let assignments = assignmentCache.get(experiments);
+  if (!assignments) {
+    assignments = assignVariants(experiments);
+    assignmentCache.set(experiments, assignments);
+  }
+  return assignments;
+};
+
+// Variants are applied after mount: the prerendered HTML is the same for every
+// visitor, so the first client render has to show the base content too.
+const useAssignments = (experiments: ExperimentContent[]): Assignments => {
+  const [assignments, setAssignments] = useState(NO_ASSIGNMENTS);
+
+  useEffect(() => {
+    setAssignments(assignmentsFor(experiments));
+  }, [experiments]);
+
+  return assignments;
+};
+
+const reportExposure = (experiment: string, variant: string) => {
+  if (reported.has(experiment)) return;
+  reported.add(experiment);
+  track('experiment_exposure', { experiment, variant });
+};
+
+/**
+ * Returns the visitor's variant id for an experiment and reports the exposure
+ * once. The report waits for the cookie choice: trackers only receive events
+ * it allows, and an exposure reported before it would never reach them.
+ */
+export const useExperiment = (experiments: ExperimentContent[], experimentId: string): string | undefined => {
+  const variant = useAssignments(experiments)[experimentId];
+  const consent = useConsent();
+
+  useEffect(() => {
+    if (consent && variant) reportExposure(experimentId, variant);
+  }, [consent, experimentId, variant]);
+
+  return variant;
+};
+
+/**
+ * Returns the content with the visitor's variants applied. Every experiment
+ * in the content is rendered by the page, so each one counts as exposed, as
+ * soon as the cookie choice is made.
+ */
+export const useExperimentContent = (content: CourseContent): CourseContent => {
+  const assignments = useAssignments(content.experiments);
+  const consent = useConsent();
+
+  useEffect(() => {
+    if (!consent) return;
+    for (const [experiment, variant] of Object.entries(assignments)) reportExposure(experiment, variant);
+  }, [consent, assignments]);
+
+  return useMemo(() => applyVariantOverrides(content, assignments), [content, assignments]);
+};
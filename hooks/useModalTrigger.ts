@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ModalFrequencyContent, ModalTriggerContent } from '../content/schema';
+import { track } from '../lib/analytics';
+import { claimModal, isUnderCap, readModalShows, recordModalShow, releaseModal, watchTrigger } from '../lib/modals';
+
+interface ModalTriggerOptions {
+  /** Names the modal's frequency record in localStorage. */
+  id: string;
+  triggers: ModalTriggerContent[];
+  frequency: ModalFrequencyContent;
+  /** False to stop watching, e.g. once the offer has expired. */
+  enabled?: boolean;
+}
+
+/**
+ * Opens a modal on the first of its triggers, at most `frequency.maxShows`
+ * times per visitor and period, and never over another modal. Nothing is
+ * watched until mount, so the prerendered page always has it closed.
+ */
+export const useModalTrigger = ({ id, triggers, frequency, enabled = true }: ModalTriggerOptions) => {
+  const [open, setOpen] = useState(false);
+  // Once per page view; the cap decides about later visits.
+  const [shown, setShown] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || shown || !isUnderCap(readModalShows(id), frequency)) return;
+    const stops: (() => void)[] = [];
+    const stop = () => stops.forEach(stopWatching => stopWatching());
+    const fire = () => {
+      if (!claimModal(id)) return;
+      stop();
+      recordModalShow(id, frequency);
+      track('modal_view', { modal: id });
+      setShown(true);
+      setOpen(true);
+    };
+    for (const trigger of triggers) stops.push(watchTrigger(trigger, fire));
+    return stop;
+  }, [id, triggers, frequency, enabled, shown]);
+
+  const close = useCallback(() => {
+    releaseModal(id);
+    setOpen(false);
+  }, [id]);
+
+  useEffect(() => () => releaseModal(id), [id]);
+
+  return { open, close };
+};
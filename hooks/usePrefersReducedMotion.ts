@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { getMotionPreference, isMotionReduced, MotionPreference, subscribeMotionPreference } from '../lib/motion';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Whether to reduce motion: the visitor's choice in the footer toggle, or the
+ * OS setting while they haven't made one. False until mounted.
+ */
+export const usePrefersReducedMotion = (): boolean => {
+  const [systemReduced, setSystemReduced] = useState(false);
+  const [preference, setPreference] = useState<MotionPreference>('system');
+
+  useEffect(() => {
+    setPreference(getMotionPreference());
+    const unsubscribe = subscribeMotionPreference(setPreference);
+    if (typeof window.matchMedia !== 'function') return unsubscribe;
+    const query = window.matchMedia(QUERY);
+    const update = () => setSystemReduced(query.matches);
+    update();
+    query.addEventListener('change', update);
+    return () => {
+      unsubscribe();
+      query.removeEventListener('change', update);
+    };
+  }, []);
+
+  return isMotionReduced(preference, systemReduced);
+};
@@ -0,0 +1,17 @@
+import { useRef } from 'react';
+import { newScrollDepths, track } from '../lib/analytics';
+import { useThrottledScroll } from './useThrottledScroll';
+
+/** Emits a `scroll_depth` event the first time the visitor reaches 25/50/75/100% of the page. */
+export const useScrollDepth = () => {
+  const reached = useRef(new Set<number>());
+
+  useThrottledScroll(() => {
+    const { scrollHeight } = document.documentElement;
+    const percent = scrollHeight > 0 ? ((window.scrollY + window.innerHeight) / scrollHeight) * 100 : 100;
+    for (const depth of newScrollDepths(percent, reached.current)) {
+      reached.current.add(depth);
+      track('scroll_depth', { percent: depth });
+    }
+  });
+};
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls `onScroll` at most once per animation frame while the page scrolls or
+ * resizes, and once after mount so the initial position is measured too.
+ */
+export const useThrottledScroll = (onScroll: () => void) => {
+  const onScrollRef = useRef(onScroll);
+  onScrollRef.current = onScroll;
+
+  useEffect(() => {
+    let frame = 0;
+    const run = () => {
+      frame = 0;
+      onScrollRef.current();
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(run);
+    };
+
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    schedule();
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, []);
+};
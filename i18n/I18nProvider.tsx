@@ -0,0 +1,83 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { readItem, writeItem } from '../lib/storage';
+import { detectLocale, LANG_PARAM, localeFromPath, LOCALE_STORAGE_KEY } from './detect';
+import { DEFAULT_LOCALE, Locale, LOCALE_INFO, LocaleInfo } from './locales';
+import { MessageKey, MESSAGES } from './messages';
+
+type MessageValues = Record<string, string | number>;
+
+interface I18nValue {
+  locale: Locale;
+  info: LocaleInfo;
+  setLocale: (locale: Locale) => void;
+  /** Looks up a message and fills its `{placeholders}` from `values`. */
+  t: (key: MessageKey, values?: MessageValues) => string;
+}
+
+interface I18nProviderProps {
+  children?: React.ReactNode;
+  /**
+   * Locale of the first render, e.g. the one the page was prerendered in, so
+   * hydration matches the static HTML. The visitor's own preference is then
+   * detected after mount.
+   */
+  initialLocale?: Locale;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+const detectFromBrowser = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+  return detectLocale({
+    pathname: window.location.pathname,
+    search: window.location.search,
+    stored: readItem('local', LOCALE_STORAGE_KEY),
+    languages: navigator.languages ?? [navigator.language],
+  });
+};
+
+export const I18nProvider = ({ children, initialLocale }: I18nProviderProps) => {
+  const [locale, setLocaleState] = useState<Locale>(() => initialLocale ?? detectFromBrowser());
+
+  useEffect(() => {
+    if (initialLocale) setLocaleState(detectFromBrowser());
+  }, [initialLocale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    writeItem('local', LOCALE_STORAGE_KEY, next);
+    setLocaleState(next);
+
+    // Keep the address shareable: the choice goes in `?lang=`, and a locale
+    // prefix that would contradict it is dropped.
+    const url = new URL(window.location.href);
+    if (localeFromPath(url.pathname)) url.pathname = url.pathname.replace(/^\/[^/]+/, '') || '/';
+    if (next === DEFAULT_LOCALE) url.searchParams.delete(LANG_PARAM);
+    else url.searchParams.set(LANG_PARAM, next);
+    window.history.replaceState(window.history.state, '', url);
+  }, []);
+
+  const value = useMemo<I18nValue>(() => {
+    const messages = MESSAGES[locale];
+    return {
+      locale,
+      info: LOCALE_INFO[locale],
+      setLocale,
+      t: (key, values = {}) =>
+        (messages[key] ?? MESSAGES[DEFAULT_LOCALE][key] ?? key).replace(/\{(\w+)\}/g, (match, name) =>
+          name in values ? String(values[name]) : match
+        ),
+    };
+  }, [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside an I18nProvider');
+  return value;
+};
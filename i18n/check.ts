@@ -0,0 +1,36 @@
+export interface CatalogIssue {
+  locale: string;
+  key: string;
+  message: string;
+}
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort().join(',');
+
+/**
+ * Compares every catalog against the source catalog: keys that are missing,
+ * empty, unknown to the source, or that drop or add `{placeholders}`.
+ */
+export const checkCatalogs = (
+  sourceLocale: string,
+  catalogs: Record<string, Record<string, unknown>>
+): CatalogIssue[] => {
+  const issues: CatalogIssue[] = [];
+  const source = catalogs[sourceLocale];
+
+  for (const [locale, catalog] of Object.entries(catalogs)) {
+    for (const key of Object.keys(source)) {
+      const value = catalog[key];
+      if (value === undefined) {
+        issues.push({ locale, key, message: 'is missing' });
+      } else if (typeof value !== 'string' || value.trim() === '') {
+        issues.push({ locale, key, message: 'must be a non-empty string' });
+      } else if (placeholders(value) !== placeholders(source[key] as string)) {
+        issues.push({ locale, key, message: `must use the placeholders of ${sourceLocale} (${placeholders(source[key] as string) || 'none'})` });
+      }
+    }
+    for (const key of Object.keys(catalog)) {
+      if (!(key in source)) issues.push({ locale, key, message: `is not defined in ${sourceLocale}` });
+    }
+  }
+  return issues;
+};
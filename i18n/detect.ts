@@ -0,0 +1,46 @@
+import { DEFAULT_LOCALE, isLocale, Locale, LOCALE_INFO, LOCALES } from './locales';
+
+export const LANG_PARAM = 'lang';
+export const LOCALE_STORAGE_KEY = 'locale';
+
+/** Maps a language tag ("es-MX", "pt", "EN-gb") to a supported locale. */
+export const matchLocale = (tag: string | null | undefined): Locale | null => {
+  if (!tag) return null;
+  const normalized = tag.trim().toLowerCase();
+  const exact = LOCALES.find(locale => locale.toLowerCase() === normalized);
+  if (exact) return exact;
+  const language = normalized.split('-')[0];
+  return LOCALES.find(locale => locale.toLowerCase().split('-')[0] === language) ?? null;
+};
+
+export const localeFromPath = (pathname: string): Locale | null => {
+  const segment = pathname.split('/')[1]?.toLowerCase();
+  if (!segment) return null;
+  return LOCALES.find(locale => LOCALE_INFO[locale].pathPrefix === `/${segment}`) ?? null;
+};
+
+interface DetectionSources {
+  pathname?: string;
+  search?: string;
+  /** The visitor's explicit choice from the language switcher. */
+  stored?: string | null;
+  languages?: readonly string[];
+}
+
+/**
+ * Picks the locale from, in order: the URL prefix (`/es/`), the `?lang=`
+ * parameter, the visitor's earlier choice, the browser languages, and
+ * finally the default locale.
+ */
+export const detectLocale = ({ pathname = '', search = '', stored, languages = [] }: DetectionSources): Locale => {
+  const fromPath = localeFromPath(pathname);
+  if (fromPath) return fromPath;
+  const fromParam = matchLocale(new URLSearchParams(search).get(LANG_PARAM));
+  if (fromParam) return fromParam;
+  if (stored && isLocale(stored)) return stored;
+  for (const language of languages) {
+    const match = matchLocale(language);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+};
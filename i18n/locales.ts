@@ -0,0 +1,31 @@
+import type { PhoneFormat } from '../lib/phone';
+
+// --- Locales ---
+
+export const LOCALES = ['pt-BR', 'es', 'en'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+export interface LocaleInfo {
+  /** Name shown in the language switcher. */
+  label: string;
+  short: string;
+  /** BCP 47 tag handed to `Intl` for number and currency formatting. */
+  intl: string;
+  /** Open Graph locale for link previews, e.g. "pt_BR". */
+  ogLocale: string;
+  /** URL prefix that selects the locale ("" for the default locale). */
+  pathPrefix: string;
+  /** How WhatsApp numbers are typed and validated in forms. */
+  phoneFormat: PhoneFormat;
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  'pt-BR': { label: 'Português', short: 'PT', intl: 'pt-BR', ogLocale: 'pt_BR', pathPrefix: '', phoneFormat: 'br' },
+  es: { label: 'Español', short: 'ES', intl: 'es-419', ogLocale: 'es_LA', pathPrefix: '/es', phoneFormat: 'international' },
+  en: { label: 'English', short: 'EN', intl: 'en-US', ogLocale: 'en_US', pathPrefix: '/en', phoneFormat: 'international' },
+};
+
+export const isLocale = (value: string): value is Locale => (LOCALES as readonly string[]).includes(value);
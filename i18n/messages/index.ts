@@ -0,0 +1,11 @@
+import type { Locale } from '../locales';
+import ptBR from './pt-BR.json';
+import es from './es.json';
+import en from './en.json';
+
+/** pt-BR is the source catalog: every other locale must define the same keys. */
+export type MessageKey = keyof typeof ptBR;
+
+export type Messages = Record<MessageKey, string>;
+
+export const MESSAGES: Record<Locale, Messages> = { 'pt-BR': ptBR, es, en };
@@ -1,16 +1,44 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { captureTrackingParams } from './lib/checkout';
+import { captureCouponCode } from './lib/pricing';
+import { configureAnalytics } from './lib/analytics';
+import { providersFromList } from './lib/analyticsProviders';
+import { initConsent } from './lib/consent';
+import { initMotionPreference } from './lib/motion';
+import { connectGa4, connectMetaPixel } from './lib/thirdPartyScripts';
+import course from 'virtual:course-content';
+import { isLocale } from './i18n/locales';
+
+captureTrackingParams();
+captureCouponCode();
+initConsent(course.legal.version);
+initMotionPreference();
+configureAnalytics(providersFromList(process.env.ANALYTICS_PROVIDERS));
+if (process.env.META_PIXEL_ID) connectMetaPixel(process.env.META_PIXEL_ID);
+if (process.env.GA4_MEASUREMENT_ID) connectGa4(process.env.GA4_MEASUREMENT_ID);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Production builds are prerendered (see scripts/prerender.js); the dev server
+// serves an empty root.
+if (rootElement.hasChildNodes()) {
+  const { lang } = document.documentElement;
+  ReactDOM.hydrateRoot(
+    rootElement,
+    <React.StrictMode>
+      <App locale={isLocale(lang) ? lang : undefined} />
+    </React.StrictMode>
+  );
+} else {
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+}
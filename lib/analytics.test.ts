@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalyticsProvider, configureAnalytics, newScrollDepths, track } from './analytics';
+import { ALL_DENIED, ALL_GRANTED, initConsent, saveConsent } from './consent';
+
+const fakeProvider = (name: string, consent: AnalyticsProvider['consent'] = 'analytics') => ({
+  name,
+  consent,
+  track: vi.fn<AnalyticsProvider['track']>(),
+});
+
+describe('track', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    initConsent(1);
+    saveConsent(ALL_GRANTED);
+  });
+  afterEach(() => configureAnalytics([]));
+
+  it('sends the event to every configured provider', () => {
+    const ga4 = fakeProvider('ga4');
+    const meta = fakeProvider('meta', 'marketing');
+    configureAnalytics([ga4, meta]);
+
+    track('cta_click', { cta: 'hero' });
+
+    expect(ga4.track).toHaveBeenCalledWith({ name: 'cta_click', params: { cta: 'hero' } });
+    expect(meta.track).toHaveBeenCalledWith({ name: 'cta_click', params: { cta: 'hero' } });
+  });
+
+  it('sends empty params when none are given', () => {
+    const provider = fakeProvider('ga4');
+    configureAnalytics([provider]);
+    track('lead');
+    expect(provider.track).toHaveBeenCalledWith({ name: 'lead', params: {} });
+  });
+
+  it('does nothing without providers', () => {
+    configureAnalytics([]);
+    expect(() => track('cta_click')).not.toThrow();
+  });
+
+  it('skips providers whose consent category is not granted', () => {
+    saveConsent({ ...ALL_DENIED, analytics: true });
+    const ga4 = fakeProvider('ga4');
+    const meta = fakeProvider('meta', 'marketing');
+    const devConsole = fakeProvider('console', 'necessary');
+    configureAnalytics([ga4, meta, devConsole]);
+
+    track('section_view');
+
+    expect(ga4.track).toHaveBeenCalledOnce();
+    expect(meta.track).not.toHaveBeenCalled();
+    expect(devConsole.track).toHaveBeenCalledOnce();
+  });
+
+  it('keeps a throwing provider from reaching the page or the other providers', () => {
+    const broken = fakeProvider('broken');
+    broken.track.mockImplementation(() => {
+      throw new Error('tracker blocked');
+    });
+    const ga4 = fakeProvider('ga4');
+    configureAnalytics([broken, ga4]);
+
+    expect(() => track('scroll_depth', { percent: 50 })).not.toThrow();
+    expect(ga4.track).toHaveBeenCalledWith({ name: 'scroll_depth', params: { percent: 50 } });
+  });
+});
+
+describe('newScrollDepths', () => {
+  it('returns every threshold reached, in order', () => {
+    expect(newScrollDepths(0, new Set())).toEqual([]);
+    expect(newScrollDepths(24.9, new Set())).toEqual([]);
+    expect(newScrollDepths(25, new Set())).toEqual([25]);
+    expect(newScrollDepths(80, new Set())).toEqual([25, 50, 75]);
+    expect(newScrollDepths(100, new Set())).toEqual([25, 50, 75, 100]);
+  });
+
+  it('leaves out the thresholds already reported', () => {
+    expect(newScrollDepths(80, new Set([25, 50]))).toEqual([75]);
+    expect(newScrollDepths(60, new Set([25, 50]))).toEqual([]);
+  });
+});
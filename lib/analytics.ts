@@ -0,0 +1,46 @@
+import { ConsentCategory, hasConsent } from './consent';
+
+// --- Analytics ---
+//
+// A thin event bus in front of whatever trackers the page is built with.
+// Components call `track()`; configured providers forward the event to Meta
+// Pixel, GA4, a dataLayer, etc. With no providers configured it does nothing,
+// and a provider only receives events once its consent category is granted.
+
+export type EventParams = Record<string, string | number | boolean>;
+
+export interface AnalyticsEvent {
+  name: string;
+  params: EventParams;
+}
+
+export interface AnalyticsProvider {
+  name: string;
+  /** Consent the visitor must give before events reach this provider. */
+  consent: ConsentCategory;
+  track(event: AnalyticsEvent): void;
+}
+
+let providers: AnalyticsProvider[] = [];
+
+export const configureAnalytics = (next: AnalyticsProvider[]) => {
+  providers = next;
+};
+
+export const track = (name: string, params: EventParams = {}) => {
+  const event = { name, params };
+  for (const provider of providers) {
+    if (!hasConsent(provider.consent)) continue;
+    try {
+      provider.track(event);
+    } catch {
+      // A broken tracker must never break the page (or the other trackers).
+    }
+  }
+};
+
+export const SCROLL_DEPTH_THRESHOLDS = [25, 50, 75, 100] as const;
+
+/** Returns the thresholds `percent` has reached that aren't in `reached` yet. */
+export const newScrollDepths = (percent: number, reached: ReadonlySet<number>) =>
+  SCROLL_DEPTH_THRESHOLDS.filter(threshold => percent >= threshold && !reached.has(threshold));
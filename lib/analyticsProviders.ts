@@ -0,0 +1,68 @@
+import type { AnalyticsEvent, AnalyticsProvider } from './analytics';
+
+declare global {
+  interface Window {
+    fbq?: (...args: unknown[]) => void;
+    gtag?: (...args: unknown[]) => void;
+    dataLayer?: unknown[];
+  }
+}
+
+// Meta standard events for our own event names; everything else is sent as a
+// custom event.
+const META_STANDARD_EVENTS: Record<string, string> = {
+  cta_click: 'InitiateCheckout',
+  lead: 'Lead',
+  purchase: 'Purchase',
+};
+
+export const metaPixelProvider = (): AnalyticsProvider => ({
+  name: 'meta',
+  consent: 'marketing',
+  track({ name, params }: AnalyticsEvent) {
+    const standard = META_STANDARD_EVENTS[name];
+    if (standard) window.fbq?.('track', standard, params);
+    else window.fbq?.('trackCustom', name, params);
+  },
+});
+
+export const ga4Provider = (): AnalyticsProvider => ({
+  name: 'ga4',
+  consent: 'analytics',
+  track({ name, params }: AnalyticsEvent) {
+    window.gtag?.('event', name, params);
+  },
+});
+
+export const dataLayerProvider = (): AnalyticsProvider => ({
+  name: 'datalayer',
+  consent: 'analytics',
+  track({ name, params }: AnalyticsEvent) {
+    window.dataLayer = window.dataLayer || [];
+    window.dataLayer.push({ event: name, ...params });
+  },
+});
+
+export const consoleProvider = (): AnalyticsProvider => ({
+  name: 'console',
+  // Development aid: nothing leaves the browser.
+  consent: 'necessary',
+  track({ name, params }: AnalyticsEvent) {
+    console.info(`[analytics] ${name}`, params);
+  },
+});
+
+const PROVIDER_FACTORIES: Record<string, () => AnalyticsProvider> = {
+  meta: metaPixelProvider,
+  ga4: ga4Provider,
+  datalayer: dataLayerProvider,
+  console: consoleProvider,
+};
+
+/** Builds providers from a comma-separated list, e.g. "meta,ga4". Unknown names are ignored. */
+export const providersFromList = (list = ''): AnalyticsProvider[] =>
+  list
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name in PROVIDER_FACTORIES)
+    .map(name => PROVIDER_FACTORIES[name]());
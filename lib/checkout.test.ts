@@ -0,0 +1,143 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { PlanContent } from '../content/schema';
+import {
+  buildCheckoutUrl,
+  captureTrackingParams,
+  claimPurchaseEvent,
+  extractTrackingParams,
+  getTrackingParams,
+  purchaseFromSearch,
+  purchaseParams,
+} from './checkout';
+
+const BASE = 'https://pay.cartpanda.com/checkout/123?offer=abc';
+
+describe('extractTrackingParams', () => {
+  it('keeps utm_*, click IDs and src, and drops everything else', () => {
+    expect(extractTrackingParams('?utm_source=ig&utm_campaign=&fbclid=F1&src=bio&ref=x&plano=anual')).toEqual({
+      utm_source: 'ig',
+      fbclid: 'F1',
+      src: 'bio',
+    });
+  });
+});
+
+describe('captureTrackingParams', () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it('stores the landing parameters for the session', () => {
+    expect(captureTrackingParams('?utm_source=ig&utm_medium=story')).toEqual({ utm_source: 'ig', utm_medium: 'story' });
+    expect(JSON.parse(sessionStorage.getItem('checkout-tracking-params')!)).toEqual({ utm_source: 'ig', utm_medium: 'story' });
+    expect(getTrackingParams()).toEqual({ utm_source: 'ig', utm_medium: 'story' });
+  });
+
+  it('keeps the stored parameters on a landing without any', () => {
+    captureTrackingParams('?utm_source=ig&utm_medium=story');
+    expect(captureTrackingParams('?plano=anual')).toEqual({ utm_source: 'ig', utm_medium: 'story' });
+  });
+
+  it('replaces the stored parameters, rather than merging, on a landing from another campaign', () => {
+    captureTrackingParams('?utm_source=ig&utm_medium=story&utm_content=video-1');
+    expect(captureTrackingParams('?utm_source=google&gclid=G1')).toEqual({ utm_source: 'google', gclid: 'G1' });
+    expect(captureTrackingParams('')).toEqual({ utm_source: 'google', gclid: 'G1' });
+  });
+
+  it('ignores a stored value that is not JSON', () => {
+    sessionStorage.setItem('checkout-tracking-params', '{oops');
+    expect(captureTrackingParams('')).toEqual({});
+  });
+});
+
+describe('buildCheckoutUrl', () => {
+  it('returns the base URL unchanged without options', () => {
+    expect(buildCheckoutUrl(BASE)).toBe(BASE);
+  });
+
+  it('adds tracking parameters and the placement', () => {
+    const url = new URL(buildCheckoutUrl(BASE, { tracking: { utm_source: 'ig', fbclid: 'F1' }, placement: 'hero' }));
+    expect(Object.fromEntries(url.searchParams)).toEqual({ offer: 'abc', utm_source: 'ig', fbclid: 'F1', cta: 'hero' });
+  });
+
+  it('lets tracking override the base URL, and params override everything', () => {
+    const url = new URL(
+      buildCheckoutUrl('https://pay.cartpanda.com/checkout/123?utm_source=site&cta=x', {
+        tracking: { utm_source: 'ig' },
+        placement: 'pricing',
+        params: { cta: 'modal', utm_source: 'email', coupon: 'BLACK10' },
+      })
+    );
+    expect(Object.fromEntries(url.searchParams)).toEqual({ utm_source: 'email', cta: 'modal', coupon: 'BLACK10' });
+  });
+
+  it('removes a parameter passed as undefined', () => {
+    const url = new URL(buildCheckoutUrl(BASE, { params: { offer: undefined, coupon: undefined } }));
+    expect([...url.searchParams.keys()]).toEqual([]);
+  });
+});
+
+const plan = (id: string, amountCents: number): PlanContent => ({
+  id,
+  name: id,
+  features: [],
+  price: { amountCents, currency: 'BRL' },
+  checkoutUrl: `https://pay.cartpanda.com/checkout/${id}`,
+});
+
+const plans = [plan('essencial', 3700), plan('completo', 9700)];
+
+describe('purchaseFromSearch', () => {
+  it('reads the plan, order and amount paid', () => {
+    expect(purchaseFromSearch(plans, '?plano=completo&pedido=PED-48213&valor=87,30')).toEqual({
+      plan: plans[1],
+      orderId: 'PED-48213',
+      amount: { amountCents: 8730, currency: 'BRL' },
+    });
+  });
+
+  it('accepts the amount with a dot or without cents', () => {
+    expect(purchaseFromSearch(plans, '?plano=essencial&valor=37.5')?.amount).toEqual({ amountCents: 3750, currency: 'BRL' });
+    expect(purchaseFromSearch(plans, '?plano=essencial&valor=37')?.amount).toEqual({ amountCents: 3700, currency: 'BRL' });
+  });
+
+  it('leaves the amount out when checkout sends none or an unreadable one', () => {
+    expect(purchaseFromSearch(plans, '?plano=essencial')).toEqual({ plan: plans[0], orderId: undefined, amount: undefined });
+    expect(purchaseFromSearch(plans, '?plano=essencial&valor=R$37')?.amount).toBeUndefined();
+    expect(purchaseFromSearch(plans, '?plano=essencial&valor=1.297,00')?.amount).toBeUndefined();
+  });
+
+  it('keeps an order for a plan it does not know', () => {
+    expect(purchaseFromSearch(plans, '?plano=anual&pedido=PED-1')).toEqual({ plan: undefined, orderId: 'PED-1', amount: undefined });
+  });
+
+  it('is null without a known plan or an order', () => {
+    expect(purchaseFromSearch(plans, '')).toBeNull();
+    expect(purchaseFromSearch(plans, '?plano=anual&valor=97')).toBeNull();
+    expect(purchaseFromSearch(plans, '?pedido=%20')).toBeNull();
+  });
+});
+
+describe('purchaseParams', () => {
+  it('reports the amount paid, not the catalog price', () => {
+    expect(purchaseParams({ plan: plans[0], orderId: 'PED-1', amount: { amountCents: 3330, currency: 'BRL' } })).toEqual({
+      plan: 'essencial',
+      transaction_id: 'PED-1',
+      value: 33.3,
+      currency: 'BRL',
+    });
+  });
+
+  it('sends only what is known', () => {
+    expect(purchaseParams({ plan: plans[1] })).toEqual({ plan: 'completo' });
+    expect(purchaseParams({ orderId: 'PED-1' })).toEqual({ transaction_id: 'PED-1' });
+  });
+});
+
+describe('claimPurchaseEvent', () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it('is true once per session', () => {
+    expect(claimPurchaseEvent()).toBe(true);
+    expect(claimPurchaseEvent()).toBe(false);
+  });
+});
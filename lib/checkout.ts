@@ -0,0 +1,145 @@
+import type { Money, PlanContent } from '../content/schema';
+import type { EventParams } from './analytics';
+import { readItem, writeItem } from './storage';
+
+// --- Checkout Links ---
+//
+// CartPanda attributes a sale to a campaign from the query string of the
+// checkout URL, so the visitor's landing parameters have to be carried over
+// to every checkout link on the page.
+
+/** Which call-to-action on the page sent the visitor to checkout. */
+export type CheckoutPlacement = 'hero' | 'target' | 'pricing' | 'final-cta' | 'fab' | 'last-chance';
+
+export type TrackingParams = Record<string, string>;
+
+export const PLACEMENT_PARAM = 'cta';
+
+const TRACKING_STORAGE_KEY = 'checkout-tracking-params';
+const CLICK_ID_PARAMS = ['fbclid', 'gclid', 'src'];
+
+// Kept in memory too, for browsers where sessionStorage is unavailable.
+let captured: TrackingParams | null = null;
+
+const isTrackingParam = (name: string) => name.startsWith('utm_') || CLICK_ID_PARAMS.includes(name);
+
+/** Picks the attribution parameters (`utm_*`, click IDs, `src`) out of a query string. */
+export const extractTrackingParams = (search: string): TrackingParams => {
+  const params: TrackingParams = {};
+  new URLSearchParams(search).forEach((value, name) => {
+    if (isTrackingParam(name) && value !== '') params[name] = value;
+  });
+  return params;
+};
+
+const readStoredParams = (): TrackingParams => {
+  try {
+    const parsed = JSON.parse(readItem('session', TRACKING_STORAGE_KEY) ?? '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Records the attribution parameters of the current landing URL for the rest
+ * of the session. A later landing with any of them replaces the whole stored
+ * set, so the most recent campaign gets the sale without keeping, say, the
+ * `utm_content` of an earlier one; a landing without them keeps the stored
+ * set. Returns the parameters now in effect.
+ */
+export const captureTrackingParams = (search = typeof window === 'undefined' ? '' : window.location.search): TrackingParams => {
+  const landing = extractTrackingParams(search);
+  const params = Object.keys(landing).length > 0 ? landing : readStoredParams();
+  writeItem('session', TRACKING_STORAGE_KEY, JSON.stringify(params));
+  captured = params;
+  return params;
+};
+
+export const getTrackingParams = (): TrackingParams => captured ?? readStoredParams();
+
+/** Whether `href` leads to one of the checkout pages, whatever its query string. */
+export const isCheckoutLink = (href: string, checkoutUrls: string[]) => {
+  try {
+    const { origin, pathname } = new URL(href);
+    return checkoutUrls.some(checkoutUrl => {
+      const checkout = new URL(checkoutUrl);
+      return checkout.origin === origin && checkout.pathname === pathname;
+    });
+  } catch {
+    return false;
+  }
+};
+
+interface CheckoutUrlOptions {
+  tracking?: TrackingParams;
+  placement?: CheckoutPlacement;
+  /** Extra parameters; these win over everything else. */
+  params?: Record<string, string | undefined>;
+}
+
+/**
+ * Builds a checkout URL. Parameters are merged in increasing order of
+ * precedence: the ones already on `baseUrl`, the visitor's tracking
+ * parameters, the CTA placement, then `params`. An `undefined` value in
+ * `params` removes that parameter.
+ */
+export const buildCheckoutUrl = (baseUrl: string, { tracking = {}, placement, params = {} }: CheckoutUrlOptions = {}) => {
+  const url = new URL(baseUrl);
+  for (const [name, value] of Object.entries(tracking)) url.searchParams.set(name, value);
+  if (placement) url.searchParams.set(PLACEMENT_PARAM, placement);
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) url.searchParams.delete(name);
+    else url.searchParams.set(name, value);
+  }
+  return url.toString();
+};
+
+// --- Purchase ---
+//
+// CartPanda sends buyers back to `/obrigado?plano=<plan id>&pedido=<order
+// id>&valor=<amount paid>`. The thank-you page reports the purchase once per
+// session, so a reload doesn't count twice, and only when the URL names a
+// plan we sell or an order, so a visit to a bare `/obrigado` reports nothing.
+
+export const PURCHASED_PLAN_PARAM = 'plano';
+export const PURCHASE_ORDER_PARAM = 'pedido';
+/** The amount charged, in reais: "97", "97.00" or "97,00". */
+export const PURCHASE_VALUE_PARAM = 'valor';
+
+const PURCHASE_STORAGE_KEY = 'purchase-tracked';
+const AMOUNT_PATTERN = /^\d+([.,]\d{1,2})?$/;
+
+export interface Purchase {
+  plan?: PlanContent;
+  orderId?: string;
+  /** What the buyer paid, after coupons and order bumps; absent when checkout didn't say. */
+  amount?: Money;
+}
+
+const parseAmount = (value: string | null): Money | undefined =>
+  value !== null && AMOUNT_PATTERN.test(value.trim())
+    ? { amountCents: Math.round(Number(value.trim().replace(',', '.')) * 100), currency: 'BRL' }
+    : undefined;
+
+/** The purchase described by the thank-you URL, or null when it names neither a plan we sell nor an order. */
+export const purchaseFromSearch = (plans: PlanContent[], search: string): Purchase | null => {
+  const query = new URLSearchParams(search);
+  const plan = plans.find(candidate => candidate.id === query.get(PURCHASED_PLAN_PARAM));
+  const orderId = query.get(PURCHASE_ORDER_PARAM)?.trim() || undefined;
+  if (!plan && !orderId) return null;
+  return { plan, orderId, amount: parseAmount(query.get(PURCHASE_VALUE_PARAM)) };
+};
+
+export const purchaseParams = ({ plan, orderId, amount }: Purchase): EventParams => ({
+  ...(plan && { plan: plan.id }),
+  ...(orderId && { transaction_id: orderId }),
+  ...(amount && { value: amount.amountCents / 100, currency: amount.currency }),
+});
+
+/** True the first time it is called in a session, false after that. */
+export const claimPurchaseEvent = () => {
+  if (readItem('session', PURCHASE_STORAGE_KEY)) return false;
+  writeItem('session', PURCHASE_STORAGE_KEY, '1');
+  return true;
+};
@@ -0,0 +1,97 @@
+import { readItem, writeItem } from './storage';
+
+// --- Consent ---
+//
+// LGPD consent for the optional categories of cookies and trackers. The
+// visitor's choice is stored with the version of the legal texts it was given
+// for (`legal.version` in the content file), so publishing a new version asks
+// again. Code that loads third-party scripts waits for its category with
+// `whenConsented()`; analytics providers declare theirs and are skipped until
+// it is granted.
+
+export const CONSENT_CATEGORIES = ['necessary', 'analytics', 'marketing'] as const;
+
+/** Labelled through the `consent.categories.*` messages. */
+export type ConsentCategory = typeof CONSENT_CATEGORIES[number];
+
+/** The categories the visitor can turn off; "necessary" is always on. */
+export type OptionalConsentCategory = Exclude<ConsentCategory, 'necessary'>;
+
+export type ConsentChoices = Record<OptionalConsentCategory, boolean>;
+
+export interface ConsentRecord {
+  version: number;
+  choices: ConsentChoices;
+  /** When the visitor made the choice, kept as proof of consent. */
+  decidedAt: string;
+}
+
+export const CONSENT_STORAGE_KEY = 'consent';
+
+export const ALL_GRANTED: ConsentChoices = { analytics: true, marketing: true };
+export const ALL_DENIED: ConsentChoices = { analytics: false, marketing: false };
+
+/** The stored record, or null when it is missing, malformed or for another version. */
+export const parseConsent = (raw: string | null, version: number): ConsentRecord | null => {
+  if (!raw) return null;
+  try {
+    const record = JSON.parse(raw) as Partial<ConsentRecord>;
+    if (record.version !== version || typeof record.decidedAt !== 'string') return null;
+    const choices = record.choices as Partial<ConsentChoices> | undefined;
+    if (typeof choices?.analytics !== 'boolean' || typeof choices.marketing !== 'boolean') return null;
+    return { version, choices: { analytics: choices.analytics, marketing: choices.marketing }, decidedAt: record.decidedAt };
+  } catch {
+    return null;
+  }
+};
+
+export const isGranted = (record: ConsentRecord | null, category: ConsentCategory) =>
+  category === 'necessary' || Boolean(record?.choices[category]);
+
+type ConsentListener = (record: ConsentRecord | null) => void;
+
+let currentVersion = 1;
+let current: ConsentRecord | null = null;
+const listeners = new Set<ConsentListener>();
+
+const notify = () => listeners.forEach(listener => listener(current));
+
+/** Loads the visitor's stored choice for this version of the legal texts. Call once at startup. */
+export const initConsent = (version: number) => {
+  currentVersion = version;
+  current = parseConsent(readItem('local', CONSENT_STORAGE_KEY), version);
+  notify();
+};
+
+/** The visitor's choice, or null while they haven't made one. */
+export const getConsent = () => current;
+
+export const hasConsent = (category: ConsentCategory) => isGranted(current, category);
+
+export const saveConsent = (choices: ConsentChoices, now = new Date()) => {
+  current = { version: currentVersion, choices: { ...choices }, decidedAt: now.toISOString() };
+  writeItem('local', CONSENT_STORAGE_KEY, JSON.stringify(current));
+  notify();
+};
+
+/** Calls `listener` whenever the choice changes; returns the unsubscribe function. */
+export const subscribeConsent = (listener: ConsentListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Resolves once `category` is granted: right away if it already is, otherwise when the visitor allows it. */
+export const whenConsented = (category: ConsentCategory): Promise<void> =>
+  new Promise(resolve => {
+    if (hasConsent(category)) {
+      resolve();
+      return;
+    }
+    const unsubscribe = subscribeConsent(() => {
+      if (!hasConsent(category)) return;
+      unsubscribe();
+      resolve();
+    });
+  });
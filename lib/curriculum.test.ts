@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { CurriculumModuleContent, ModuleContent } from '../content/schema';
+import { curriculumFormats, curriculumSummary, filterModules, formatHours } from './curriculum';
+
+const module = (id: string, formats: CurriculumModuleContent['formats'], hours: number, lessons = 3): CurriculumModuleContent => ({
+  id,
+  title: id,
+  formats,
+  hours,
+  lessons: Array.from({ length: lessons }, (_, i) => `Aula ${i + 1}`),
+});
+
+const area = (title: string, modules: CurriculumModuleContent[]): ModuleContent => ({
+  icon: 'BookOpen',
+  title,
+  description: '...',
+  modules,
+});
+
+const areas = [
+  area('Base da Fé', [module('introducao', ['video', 'pdf'], 3), module('revelacao', ['pdf'], 2, 2)]),
+  area('Comunicação', [module('oratoria', ['video'], 1.5, 4)]),
+];
+
+describe('filterModules', () => {
+  const modules = areas[0].modules;
+
+  it('keeps every module for "all"', () => {
+    expect(filterModules(modules, 'all')).toBe(modules);
+  });
+
+  it('keeps the modules offered in the format', () => {
+    expect(filterModules(modules, 'pdf').map(m => m.id)).toEqual(['introducao', 'revelacao']);
+    expect(filterModules(modules, 'video').map(m => m.id)).toEqual(['introducao']);
+  });
+});
+
+describe('curriculumSummary', () => {
+  it('totals modules, lessons and hours over every area', () => {
+    expect(curriculumSummary(areas)).toEqual({ modules: 3, lessons: 9, hours: 6.5 });
+  });
+
+  it('counts only the modules that pass the filter', () => {
+    expect(curriculumSummary(areas, 'video')).toEqual({ modules: 2, lessons: 7, hours: 4.5 });
+    expect(curriculumSummary(areas, 'pdf')).toEqual({ modules: 2, lessons: 5, hours: 5 });
+  });
+
+  it('is zero without areas', () => {
+    expect(curriculumSummary([])).toEqual({ modules: 0, lessons: 0, hours: 0 });
+  });
+});
+
+describe('curriculumFormats', () => {
+  it('lists the formats in use, in MODULE_FORMATS order', () => {
+    expect(curriculumFormats([area('PDF', [module('a', ['pdf'], 1)]), area('Vídeo', [module('b', ['video'], 1)])])).toEqual(['video', 'pdf']);
+    expect(curriculumFormats([area('PDF', [module('a', ['pdf'], 1)])])).toEqual(['pdf']);
+  });
+});
+
+describe('formatHours', () => {
+  it('uses the locale decimal separator', () => {
+    expect(formatHours(12.5, 'pt-BR')).toBe('12,5');
+    expect(formatHours(12.5, 'en-US')).toBe('12.5');
+  });
+
+  it('rounds to one decimal so summed estimates print cleanly', () => {
+    expect(formatHours(0.1 + 0.2, 'pt-BR')).toBe('0,3');
+    expect(formatHours(103, 'pt-BR')).toBe('103');
+  });
+});
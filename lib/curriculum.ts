@@ -0,0 +1,39 @@
+import { MODULE_FORMATS } from '../content/schema';
+import type { CurriculumModuleContent, ModuleContent, ModuleFormat } from '../content/schema';
+
+// --- Curriculum ---
+
+/** "all" or a single format to show. */
+export type FormatFilter = ModuleFormat | 'all';
+
+export interface CurriculumSummary {
+  modules: number;
+  lessons: number;
+  hours: number;
+}
+
+export const filterModules = (modules: CurriculumModuleContent[], filter: FormatFilter): CurriculumModuleContent[] =>
+  filter === 'all' ? modules : modules.filter(module => module.formats.includes(filter));
+
+/** Module, lesson and hour totals over the areas, counting only modules that pass the filter. */
+export const curriculumSummary = (areas: ModuleContent[], filter: FormatFilter = 'all'): CurriculumSummary =>
+  areas
+    .flatMap(area => filterModules(area.modules, filter))
+    .reduce(
+      (total, module) => ({
+        modules: total.modules + 1,
+        lessons: total.lessons + module.lessons.length,
+        hours: total.hours + module.hours,
+      }),
+      { modules: 0, lessons: 0, hours: 0 }
+    );
+
+/** Formats used by at least one module, in `MODULE_FORMATS` order. */
+export const curriculumFormats = (areas: ModuleContent[]): ModuleFormat[] => {
+  const used = new Set(areas.flatMap(area => area.modules.flatMap(module => module.formats)));
+  return MODULE_FORMATS.filter(format => used.has(format));
+};
+
+/** "12,5" in pt-BR: at most one decimal, so summed estimates don't print float noise. */
+export const formatHours = (hours: number, locale: string) =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(hours);
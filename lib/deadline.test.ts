@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExpiryContent } from '../content/schema';
+import { deadlineStorageKey, expiryOutcome, formatTimeLeft, getTimeLeft, previewTimeLeft, resolveDeadline } from './deadline';
+
+const KEY = deadlineStorageKey('teste');
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+describe('resolveDeadline', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('returns a fixed deadline as is, without storing anything', () => {
+    expect(resolveDeadline({ type: 'fixed', expiresAt: '2026-10-20T03:00:00Z' }, KEY)).toBe(Date.parse('2026-10-20T03:00:00Z'));
+    expect(localStorage.getItem(KEY)).toBeNull();
+  });
+
+  it('starts an evergreen window on the first visit and stores it', () => {
+    const deadline = resolveDeadline({ type: 'evergreen', durationMinutes: 85 }, KEY);
+    expect(deadline).toBe(NOW + 85 * 60_000);
+    expect(localStorage.getItem(KEY)).toBe(String(deadline));
+  });
+
+  it('keeps the evergreen deadline across reloads', () => {
+    const first = resolveDeadline({ type: 'evergreen', durationMinutes: 85 }, KEY);
+    vi.advanceTimersByTime(30 * 60_000);
+    expect(resolveDeadline({ type: 'evergreen', durationMinutes: 85 }, KEY)).toBe(first);
+  });
+
+  it('starts over when the stored value is not a timestamp', () => {
+    localStorage.setItem(KEY, 'abc');
+    expect(resolveDeadline({ type: 'evergreen', durationMinutes: 10 }, KEY)).toBe(NOW + 10 * 60_000);
+  });
+});
+
+describe('getTimeLeft', () => {
+  it('splits the time left into hours, minutes and seconds, rounding up', () => {
+    expect(getTimeLeft(NOW + (1 * 3600 + 24 * 60 + 59) * 1000 + 400, NOW)).toEqual({ hours: 1, minutes: 25, seconds: 0, expired: false });
+    expect(getTimeLeft(NOW + 5_000, NOW)).toEqual({ hours: 0, minutes: 0, seconds: 5, expired: false });
+  });
+
+  it('stops at zero once the deadline has passed', () => {
+    expect(getTimeLeft(NOW, NOW)).toEqual({ hours: 0, minutes: 0, seconds: 0, expired: true });
+    expect(getTimeLeft(NOW - 60_000, NOW)).toEqual({ hours: 0, minutes: 0, seconds: 0, expired: true });
+  });
+});
+
+describe('previewTimeLeft', () => {
+  it('shows the full evergreen window and nothing for a fixed deadline', () => {
+    expect(formatTimeLeft(previewTimeLeft({ type: 'evergreen', durationMinutes: 85 })!)).toBe('01:25:00');
+    expect(previewTimeLeft({ type: 'fixed', expiresAt: '2026-10-20T03:00:00Z' })).toBeNull();
+  });
+});
+
+describe('expiryOutcome', () => {
+  const expired = getTimeLeft(NOW, NOW);
+  const running = getTimeLeft(NOW + 60_000, NOW);
+  const actions: ExpiryContent[] = [
+    { action: 'show-full-price' },
+    { action: 'hide-badge' },
+    { action: 'redirect', url: 'https://example.com/encerrado' },
+  ];
+
+  it('changes nothing while time is left', () => {
+    for (const onExpire of actions) {
+      expect(expiryOutcome(running, onExpire)).toEqual({ fullPrice: false, hideBadge: false, redirectUrl: null });
+      expect(expiryOutcome(null, onExpire)).toEqual({ fullPrice: false, hideBadge: false, redirectUrl: null });
+    }
+  });
+
+  it('applies only the configured action once expired', () => {
+    expect(expiryOutcome(expired, actions[0])).toEqual({ fullPrice: true, hideBadge: false, redirectUrl: null });
+    expect(expiryOutcome(expired, actions[1])).toEqual({ fullPrice: false, hideBadge: true, redirectUrl: null });
+    expect(expiryOutcome(expired, actions[2])).toEqual({ fullPrice: false, hideBadge: false, redirectUrl: 'https://example.com/encerrado' });
+  });
+});
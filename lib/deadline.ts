@@ -0,0 +1,69 @@
+import type { DeadlineContent, ExpiryContent } from '../content/schema';
+import { readItem, writeItem } from './storage';
+
+export interface TimeLeft {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  expired: boolean;
+}
+
+export const deadlineStorageKey = (courseId: string) => `offer-deadline:${courseId}`;
+
+/**
+ * Resolves the offer deadline as an epoch timestamp. Fixed deadlines come
+ * straight from the content file; evergreen ones start on the visitor's first
+ * page view and are kept in localStorage so reloading doesn't reset them.
+ */
+export const resolveDeadline = (config: DeadlineContent, storageKey: string, now = Date.now()): number => {
+  if (config.type === 'fixed') return Date.parse(config.expiresAt);
+
+  const stored = Number(readItem('local', storageKey));
+  if (Number.isFinite(stored) && stored > 0) return stored;
+
+  const deadline = now + config.durationMinutes * 60_000;
+  writeItem('local', storageKey, String(deadline));
+  return deadline;
+};
+
+export const getTimeLeft = (deadline: number, now = Date.now()): TimeLeft => {
+  const total = Math.max(0, Math.ceil((deadline - now) / 1000));
+  return {
+    hours: Math.floor(total / 3600),
+    minutes: Math.floor((total % 3600) / 60),
+    seconds: total % 60,
+    expired: total === 0,
+  };
+};
+
+export interface ExpiryOutcome {
+  /** Plans go back to their anchor price and coupons stop applying. */
+  fullPrice: boolean;
+  hideBadge: boolean;
+  /** Where to send the visitor, for the `redirect` action. */
+  redirectUrl: string | null;
+}
+
+/** What the page changes once the offer is over; nothing while time is left. */
+export const expiryOutcome = (timeLeft: TimeLeft | null, onExpire: ExpiryContent): ExpiryOutcome => {
+  const expired = Boolean(timeLeft?.expired);
+  return {
+    fullPrice: expired && onExpire.action === 'show-full-price',
+    hideBadge: expired && onExpire.action === 'hide-badge',
+    redirectUrl: expired && onExpire.action === 'redirect' ? onExpire.url : null,
+  };
+};
+
+/**
+ * What the countdown shows before the visitor's deadline is known (prerendered
+ * HTML and the first client render): the full window of an evergreen offer.
+ * A fixed deadline has no stable value at build time, so it has none.
+ */
+export const previewTimeLeft = (config: DeadlineContent): TimeLeft | null =>
+  config.type === 'evergreen' ? getTimeLeft(config.durationMinutes * 60_000, 0) : null;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/** Formats the time left as "HH:MM:SS". */
+export const formatTimeLeft = ({ hours, minutes, seconds }: TimeLeft) =>
+  `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
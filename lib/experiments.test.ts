@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ExperimentContent } from '../content/schema';
+import { assignVariants, bucketVariant, getVisitorId, hashString, parseVariantOverrides } from './experiments';
+
+const heroCta: ExperimentContent = {
+  id: 'hero-cta',
+  variants: [
+    { id: 'controle', weight: 1, overrides: {} },
+    { id: 'vaga', weight: 1, overrides: { 'hero.ctaLabel': 'Garantir minha vaga' } },
+  ],
+};
+
+const headline: ExperimentContent = {
+  id: 'headline',
+  variants: [
+    { id: 'controle', weight: 3, overrides: {} },
+    { id: 'pergunta', weight: 1, overrides: {} },
+  ],
+};
+
+describe('hashString', () => {
+  it('is stable and unsigned 32-bit', () => {
+    expect(hashString('hero-cta:visitante-1')).toBe(hashString('hero-cta:visitante-1'));
+    expect(hashString('')).toBe(hashString(''));
+    for (const input of ['', 'a', 'hero-cta:visitante-1', 'ç'.repeat(100)]) {
+      const hash = hashString(input);
+      expect(Number.isInteger(hash) && hash >= 0 && hash < 2 ** 32).toBe(true);
+    }
+  });
+
+  it('spreads similar inputs apart', () => {
+    expect(hashString('visitante-1')).not.toBe(hashString('visitante-2'));
+  });
+});
+
+describe('bucketVariant', () => {
+  const visitors = Array.from({ length: 10_000 }, (_, i) => `visitante-${i}`);
+
+  it('always gives a visitor the same variant', () => {
+    for (const visitor of visitors.slice(0, 100)) expect(bucketVariant(heroCta, visitor)).toBe(bucketVariant(heroCta, visitor));
+  });
+
+  it('splits visitors by the variant weights', () => {
+    const counts = { controle: 0, pergunta: 0 };
+    for (const visitor of visitors) counts[bucketVariant(headline, visitor) as keyof typeof counts]++;
+    expect(counts.controle / visitors.length).toBeCloseTo(0.75, 1);
+    expect(counts.pergunta / visitors.length).toBeCloseTo(0.25, 1);
+  });
+
+  it('never picks a variant with no weight', () => {
+    const off: ExperimentContent = { id: 'off', variants: [{ id: 'a', weight: 0, overrides: {} }, { id: 'b', weight: 1, overrides: {} }] };
+    expect(visitors.slice(0, 500).every(visitor => bucketVariant(off, visitor) === 'b')).toBe(true);
+  });
+});
+
+describe('parseVariantOverrides', () => {
+  const experiments = [heroCta, headline];
+
+  it('is empty without ?variant=', () => {
+    expect(parseVariantOverrides('?utm_source=ig', experiments)).toEqual({});
+  });
+
+  it('applies experiment:variant pairs to that experiment only', () => {
+    expect(parseVariantOverrides('?variant=hero-cta:controle', experiments)).toEqual({ 'hero-cta': 'controle' });
+  });
+
+  it('applies a bare variant id to every experiment that has it', () => {
+    expect(parseVariantOverrides('?variant=controle', experiments)).toEqual({ 'hero-cta': 'controle', headline: 'controle' });
+    expect(parseVariantOverrides('?variant=pergunta', experiments)).toEqual({ headline: 'pergunta' });
+  });
+
+  it('takes several entries and skips unknown ones', () => {
+    expect(parseVariantOverrides('?variant=hero-cta:vaga, headline:pergunta,,nope,hero-cta:nope', experiments)).toEqual({
+      'hero-cta': 'vaga',
+      headline: 'pergunta',
+    });
+  });
+});
+
+describe('assignVariants', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('buckets a new visitor and stores the assignment', () => {
+    const assignments = assignVariants([heroCta], '');
+    expect(assignments).toEqual({ 'hero-cta': bucketVariant(heroCta, getVisitorId()) });
+    expect(JSON.parse(localStorage.getItem('experiment-assignments')!)).toEqual(assignments);
+  });
+
+  it('keeps a stored assignment even when bucketing would now pick another variant', () => {
+    const bucketed = bucketVariant(heroCta, getVisitorId());
+    const other = bucketed === 'vaga' ? 'controle' : 'vaga';
+    localStorage.setItem('experiment-assignments', JSON.stringify({ 'hero-cta': other }));
+    expect(assignVariants([heroCta], '')).toEqual({ 'hero-cta': other });
+  });
+
+  it('rebuckets when the stored variant no longer exists', () => {
+    localStorage.setItem('experiment-assignments', JSON.stringify({ 'hero-cta': 'removida' }));
+    const assignments = assignVariants([heroCta], '');
+    expect(assignments['hero-cta']).toBe(bucketVariant(heroCta, getVisitorId()));
+    expect(JSON.parse(localStorage.getItem('experiment-assignments')!)).toEqual(assignments);
+  });
+
+  it('applies ?variant= overrides without storing them', () => {
+    localStorage.setItem('experiment-assignments', JSON.stringify({ 'hero-cta': 'controle' }));
+    expect(assignVariants([heroCta], '?variant=hero-cta:vaga')).toEqual({ 'hero-cta': 'vaga' });
+    expect(JSON.parse(localStorage.getItem('experiment-assignments')!)).toEqual({ 'hero-cta': 'controle' });
+  });
+});
@@ -0,0 +1,122 @@
+import type { CourseContent, ExperimentContent } from '../content/schema';
+import { setPaths } from '../content/paths';
+import { readItem, writeItem } from './storage';
+
+// --- Experiments ---
+//
+// Visitors are bucketed by hashing their visitor id with the experiment id, so
+// the same visitor always lands in the same variant. The assignment is also
+// stored, which keeps it stable when the weights are changed mid-test.
+
+const VISITOR_STORAGE_KEY = 'visitor-id';
+const ASSIGNMENTS_STORAGE_KEY = 'experiment-assignments';
+
+export const VARIANT_PARAM = 'variant';
+
+export type Assignments = Record<string, string>;
+
+// Kept in memory too, so the visitor keeps one id when storage is unavailable.
+let visitorId: string | null = null;
+
+/** 32-bit FNV-1a hash, with a murmur3 finalizer to spread similar inputs evenly. */
+export const hashString = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+/** Deterministically picks a variant id for a visitor, honoring the variant weights. */
+export const bucketVariant = (experiment: ExperimentContent, visitorId: string): string => {
+  const total = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = (hashString(`${experiment.id}:${visitorId}`) / 0x100000000) * total;
+  for (const variant of experiment.variants) {
+    if (point < variant.weight) return variant.id;
+    point -= variant.weight;
+  }
+  return experiment.variants[experiment.variants.length - 1].id;
+};
+
+/**
+ * Parses `?variant=` QA overrides. Accepts `experiment:variant` pairs, or a
+ * bare variant id that applies to every experiment that has such a variant;
+ * several can be given separated by commas.
+ */
+export const parseVariantOverrides = (search: string, experiments: ExperimentContent[]): Assignments => {
+  const overrides: Assignments = {};
+  const value = new URLSearchParams(search).get(VARIANT_PARAM);
+  if (!value) return overrides;
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [experimentId, variantId] = entry.includes(':') ? entry.split(':') : [null, entry];
+    for (const experiment of experiments) {
+      if (experimentId !== null && experiment.id !== experimentId) continue;
+      if (experiment.variants.some(variant => variant.id === variantId)) overrides[experiment.id] = variantId;
+    }
+  }
+  return overrides;
+};
+
+const createVisitorId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const getVisitorId = (): string => {
+  if (visitorId) return visitorId;
+  visitorId = readItem('local', VISITOR_STORAGE_KEY) ?? createVisitorId();
+  writeItem('local', VISITOR_STORAGE_KEY, visitorId);
+  return visitorId;
+};
+
+const readStoredAssignments = (): Assignments => {
+  try {
+    const parsed = JSON.parse(readItem('local', ASSIGNMENTS_STORAGE_KEY) ?? '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Resolves the variant of every experiment for this visitor: a `?variant=`
+ * override first, then a stored assignment (if that variant still exists),
+ * then a fresh bucketing that gets stored. Overrides are not persisted.
+ */
+export const assignVariants = (
+  experiments: ExperimentContent[],
+  search = typeof window === 'undefined' ? '' : window.location.search
+): Assignments => {
+  const stored = readStoredAssignments();
+  const overrides = parseVariantOverrides(search, experiments);
+  const id = getVisitorId();
+  const assignments: Assignments = {};
+
+  for (const experiment of experiments) {
+    const previous = stored[experiment.id];
+    if (previous && experiment.variants.some(variant => variant.id === previous)) {
+      assignments[experiment.id] = previous;
+    } else {
+      assignments[experiment.id] = bucketVariant(experiment, id);
+      stored[experiment.id] = assignments[experiment.id];
+    }
+  }
+  writeItem('local', ASSIGNMENTS_STORAGE_KEY, JSON.stringify(stored));
+
+  return { ...assignments, ...overrides };
+};
+
+/** Applies the content overrides of each assigned variant. */
+export const applyVariantOverrides = (content: CourseContent, assignments: Assignments): CourseContent =>
+  content.experiments.reduce((patched, experiment) => {
+    const variant = experiment.variants.find(candidate => candidate.id === assignments[experiment.id]);
+    if (!variant) return patched;
+    return setPaths(patched, variant.overrides);
+  }, content);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { FAQEntry } from '../content/schema';
+import { accordionFocusTarget, faqItemFromHash, searchFaq } from './faq';
+
+const items: FAQEntry[] = [
+  { id: 'acesso', question: 'Como recebo o acesso?', answer: 'Por e-mail, logo após o pagamento.' },
+  { id: 'certificado', question: 'Há certificado?', answer: 'Sim, você recebe um certificado de conclusão.' },
+];
+
+describe('faqItemFromHash', () => {
+  it('finds the item a #faq-<id> hash points at', () => {
+    expect(faqItemFromHash('#faq-certificado', items)).toBe(items[1]);
+    expect(faqItemFromHash('faq-acesso', items)).toBe(items[0]);
+    expect(faqItemFromHash('#faq-%63ertificado', items)).toBe(items[1]);
+  });
+
+  it('ignores other hashes, unknown ids and malformed escapes', () => {
+    expect(faqItemFromHash('', items)).toBeUndefined();
+    expect(faqItemFromHash('#precos', items)).toBeUndefined();
+    expect(faqItemFromHash('#faq-nope', items)).toBeUndefined();
+    expect(faqItemFromHash('#%', items)).toBeUndefined();
+    expect(faqItemFromHash('#faq-%E0%A4%A', items)).toBeUndefined();
+  });
+});
+
+describe('searchFaq', () => {
+  it('matches every word in the question or answer, ignoring case and accents', () => {
+    expect(searchFaq(items, 'CERTIFICADO voce')).toEqual([items[1]]);
+    expect(searchFaq(items, 'email pagamento')).toEqual([]);
+    expect(searchFaq(items, 'e-mail pagamento')).toEqual([items[0]]);
+  });
+
+  it('returns every item for a blank query', () => {
+    expect(searchFaq(items, '   ')).toBe(items);
+  });
+});
+
+describe('accordionFocusTarget', () => {
+  it('wraps the arrow keys around and jumps with Home and End', () => {
+    expect(accordionFocusTarget('ArrowDown', 2, 3)).toBe(0);
+    expect(accordionFocusTarget('ArrowUp', 0, 3)).toBe(2);
+    expect(accordionFocusTarget('Home', 2, 3)).toBe(0);
+    expect(accordionFocusTarget('End', 0, 3)).toBe(2);
+    expect(accordionFocusTarget('Enter', 0, 3)).toBeNull();
+    expect(accordionFocusTarget('ArrowDown', 0, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import type { FAQEntry } from '../content/schema';
+
+// --- FAQ ---
+
+export const FAQ_HASH_PREFIX = 'faq-';
+
+/** Element id (and `#hash`) of a FAQ item, e.g. "faq-certificado". */
+export const faqAnchor = (id: string) => `${FAQ_HASH_PREFIX}${id}`;
+
+/** The FAQ item a `#faq-<id>` hash points at, if any. */
+export const faqItemFromHash = (hash: string, items: FAQEntry[]): FAQEntry | undefined => {
+  const raw = hash.replace(/^#/, '');
+  if (!raw.startsWith(FAQ_HASH_PREFIX)) return undefined;
+  let anchor: string;
+  try {
+    anchor = decodeURIComponent(raw);
+  } catch {
+    // A malformed escape such as "#faq-%" names no item.
+    return undefined;
+  }
+  return items.find(item => faqAnchor(item.id) === anchor);
+};
+
+// Case- and accent-insensitive, so "voce" finds "você".
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/** Items whose question or answer contains every word of the query. */
+export const searchFaq = (items: FAQEntry[], query: string): FAQEntry[] => {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return items;
+  return items.filter(item => {
+    const haystack = normalize(`${item.question} ${item.answer}`);
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+/**
+ * Index of the accordion header to focus for a key press, following the
+ * WAI-ARIA accordion pattern (arrows wrap around), or null for other keys.
+ */
+export const accordionFocusTarget = (key: string, index: number, count: number): number | null => {
+  if (count === 0) return null;
+  switch (key) {
+    case 'ArrowDown': return (index + 1) % count;
+    case 'ArrowUp': return (index - 1 + count) % count;
+    case 'Home': return 0;
+    case 'End': return count - 1;
+    default: return null;
+  }
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Lead, LeadAdapter, LeadSubmissionError, memoryLeadAdapter, normalizeLead, submitLead, validateLead, webhookLeadAdapter } from './leads';
+
+const lead: Lead = {
+  name: 'Maria Souza',
+  email: 'maria@example.com',
+  whatsapp: '5511987654321',
+  source: 'inline',
+  page: 'https://example.com/',
+  createdAt: '2026-10-19T12:00:00.000Z',
+};
+
+const noWait = () => Promise.resolve();
+
+describe('validateLead', () => {
+  it('accepts a complete lead', () => {
+    expect(validateLead({ name: 'Maria', email: 'maria@example.com', whatsapp: '(11) 98765-4321' })).toEqual({});
+  });
+
+  it('flags each invalid field with its message key', () => {
+    expect(validateLead({ name: ' M ', email: 'maria@', whatsapp: '1234' })).toEqual({
+      name: 'lead.errors.name',
+      email: 'lead.errors.email',
+      whatsapp: 'lead.errors.whatsapp',
+    });
+  });
+});
+
+describe('normalizeLead', () => {
+  it('trims the name, lowercases the e-mail and stores the phone as E.164 digits', () => {
+    expect(normalizeLead({ name: ' Maria ', email: ' Maria@Example.com ', whatsapp: '(11) 98765-4321' }, 'exit-intent')).toMatchObject({
+      name: 'Maria',
+      email: 'maria@example.com',
+      whatsapp: '5511987654321',
+      source: 'exit-intent',
+    });
+  });
+});
+
+describe('submitLead', () => {
+  it('retries failures until the adapter accepts the lead', async () => {
+    const adapter = memoryLeadAdapter({ failures: 2 });
+    const wait = vi.fn(noWait);
+    await submitLead(adapter, lead, { attempts: 3, delayMs: 100, wait });
+    expect(adapter.leads).toEqual([lead]);
+    expect(wait.mock.calls).toEqual([[100], [200]]);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const adapter = memoryLeadAdapter({ failures: 3 });
+    await expect(submitLead(adapter, lead, { attempts: 3, wait: noWait })).rejects.toThrow(LeadSubmissionError);
+    expect(adapter.leads).toEqual([]);
+  });
+
+  it('does not retry client errors', async () => {
+    const submit = vi.fn<LeadAdapter['submit']>().mockRejectedValue(new LeadSubmissionError('Bad request', 400));
+    await expect(submitLead({ submit }, lead, { wait: noWait })).rejects.toMatchObject({ status: 400 });
+    expect(submit).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('webhookLeadAdapter', () => {
+  it('POSTs the lead as JSON', async () => {
+    const fetchImpl = vi.fn<typeof fetch>().mockResolvedValue(new Response(null, { status: 204 }));
+    await webhookLeadAdapter('https://hooks.example.com/leads', fetchImpl).submit(lead);
+    expect(fetchImpl).toHaveBeenCalledWith('https://hooks.example.com/leads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(lead),
+    });
+  });
+
+  it('fails with the status of a non-2xx response, or without one when offline', async () => {
+    const rejected = webhookLeadAdapter('https://hooks.example.com/leads', () => Promise.resolve(new Response(null, { status: 503 })));
+    await expect(rejected.submit(lead)).rejects.toMatchObject({ status: 503 });
+    const offline = webhookLeadAdapter('https://hooks.example.com/leads', () => Promise.reject(new TypeError('Failed to fetch')));
+    await expect(offline.submit(lead)).rejects.toMatchObject({ status: undefined });
+  });
+});
@@ -0,0 +1,127 @@
+import type { MessageKey } from '../i18n/messages';
+import { isValidInternationalPhone, isValidPhone, PhoneFormat, toE164Digits } from './phone';
+
+// --- Leads ---
+//
+// Leads are submitted through an adapter so the form doesn't care whether
+// they go to a CRM webhook, the local mock API or an in-memory list in tests.
+
+export interface LeadInput {
+  name: string;
+  email: string;
+  whatsapp: string;
+}
+
+export interface Lead extends LeadInput {
+  /** Which form the lead came from, e.g. "inline" or "exit-intent". */
+  source: string;
+  page: string;
+  createdAt: string;
+}
+
+export interface LeadAdapter {
+  submit(lead: Lead): Promise<void>;
+}
+
+/** Field errors, as message catalog keys. */
+export type LeadErrors = Partial<Record<keyof LeadInput, MessageKey>>;
+
+export class LeadSubmissionError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LeadSubmissionError';
+    this.status = status;
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+export const validateLead = ({ name, email, whatsapp }: LeadInput, phoneFormat: PhoneFormat = 'br'): LeadErrors => {
+  const errors: LeadErrors = {};
+  const validPhone = phoneFormat === 'br' ? isValidPhone(whatsapp) : isValidInternationalPhone(whatsapp);
+  if (name.trim().length < 2) errors.name = 'lead.errors.name';
+  if (!isValidEmail(email)) errors.email = 'lead.errors.email';
+  if (!validPhone) errors.whatsapp = 'lead.errors.whatsapp';
+  return errors;
+};
+
+export const normalizeLead = (input: LeadInput, source: string, phoneFormat: PhoneFormat = 'br'): Lead => ({
+  name: input.name.trim(),
+  email: input.email.trim().toLowerCase(),
+  whatsapp: phoneFormat === 'br' ? toE164Digits(input.whatsapp) : input.whatsapp.replace(/\D/g, ''),
+  source,
+  page: typeof window === 'undefined' ? '' : window.location.href,
+  createdAt: new Date().toISOString(),
+});
+
+/** POSTs the lead as JSON; any non-2xx response is a failure. */
+export const webhookLeadAdapter = (url: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): LeadAdapter => ({
+  async submit(lead) {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(lead),
+      });
+    } catch {
+      throw new LeadSubmissionError('Sem conexão com o servidor.');
+    }
+    if (!response.ok) throw new LeadSubmissionError(`O servidor respondeu ${response.status}.`, response.status);
+  },
+});
+
+/** Keeps leads in memory; `failures` makes the first N submissions fail. */
+export const memoryLeadAdapter = ({ failures = 0 } = {}) => {
+  const leads: Lead[] = [];
+  let remainingFailures = failures;
+  const adapter: LeadAdapter & { leads: Lead[] } = {
+    leads,
+    async submit(lead) {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        throw new LeadSubmissionError('Falha simulada.');
+      }
+      leads.push(lead);
+    },
+  };
+  return adapter;
+};
+
+interface RetryOptions {
+  attempts?: number;
+  delayMs?: number;
+  wait?: (ms: number) => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Submits with retries and a linear backoff. Client errors (4xx) are not
+ * retried: sending the same payload again won't fix them.
+ */
+export const submitLead = async (
+  adapter: LeadAdapter,
+  lead: Lead,
+  { attempts = 3, delayMs = 800, wait = sleep }: RetryOptions = {}
+) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await adapter.submit(lead);
+      return;
+    } catch (err) {
+      const status = err instanceof LeadSubmissionError ? err.status : undefined;
+      const retryable = status === undefined || status >= 500 || status === 429;
+      if (!retryable || attempt >= attempts) throw err;
+      await wait(delayMs * attempt);
+    }
+  }
+};
+
+/** The adapter configured for this build (`LEAD_WEBHOOK_URL`), or null when leads are disabled. */
+export const createLeadAdapter = (url = process.env.LEAD_WEBHOOK_URL): LeadAdapter | null =>
+  url ? webhookLeadAdapter(url) : null;
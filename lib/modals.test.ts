@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { claimModal, isFastScrollUp, isUnderCap, readModalShows, recordModalShow, releaseModal } from './modals';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+describe('frequency caps', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('counts only the shows within the period', () => {
+    const frequency = { maxShows: 2, periodHours: 24 };
+    expect(isUnderCap([NOW - 25 * HOUR, NOW - HOUR], frequency, NOW)).toBe(true);
+    expect(isUnderCap([NOW - 2 * HOUR, NOW - HOUR], frequency, NOW)).toBe(false);
+  });
+
+  it('records shows, dropping the expired ones', () => {
+    localStorage.setItem('modal-shows:lead', JSON.stringify([NOW - 30 * HOUR, NOW - HOUR, 'x']));
+    recordModalShow('lead', { maxShows: 1, periodHours: 24 }, NOW);
+    expect(readModalShows('lead')).toEqual([NOW - HOUR, NOW]);
+  });
+});
+
+describe('claimModal', () => {
+  it('lets one modal open at a time', () => {
+    expect(claimModal('lead')).toBe(true);
+    expect(claimModal('last-chance')).toBe(false);
+    releaseModal('last-chance');
+    expect(claimModal('last-chance')).toBe(false);
+    releaseModal('lead');
+    expect(claimModal('last-chance')).toBe(true);
+    releaseModal('last-chance');
+  });
+});
+
+describe('isFastScrollUp', () => {
+  it('needs a fast enough upward scroll', () => {
+    expect(isFastScrollUp({ y: 2000, at: 0 }, { y: 1800, at: 100 })).toBe(true);
+    expect(isFastScrollUp({ y: 2000, at: 0 }, { y: 1950, at: 100 })).toBe(false);
+    expect(isFastScrollUp({ y: 1800, at: 0 }, { y: 2000, at: 100 })).toBe(false);
+  });
+});
+
+describe('exit intent on touch screens', () => {
+  const popState = () => new Promise(resolve => window.addEventListener('popstate', resolve, { once: true }));
+  // A fresh module per test: the back-button entry is shared page state.
+  let watchTrigger: typeof import('./modals').watchTrigger;
+
+  beforeEach(async () => {
+    window.matchMedia = vi.fn().mockReturnValue({ matches: true }) as unknown as typeof window.matchMedia;
+    vi.resetModules();
+    ({ watchTrigger } = await import('./modals'));
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fires on the back button, without leaving an extra history entry behind', async () => {
+    const fire = vi.fn();
+    const length = window.history.length;
+    const stop = watchTrigger({ type: 'exit-intent' }, fire);
+    window.dispatchEvent(new Event('pointerup'));
+    window.dispatchEvent(new Event('pointerup'));
+    expect(window.history.length).toBe(length + 1);
+
+    const left = popState();
+    window.history.back();
+    await left;
+    expect(fire).toHaveBeenCalledTimes(1);
+    stop();
+    expect(window.history.state).toBeNull();
+  });
+
+  it('takes its history entry off again once no modal watches for it', async () => {
+    const fire = vi.fn();
+    const first = watchTrigger({ type: 'exit-intent' }, fire);
+    const second = watchTrigger({ type: 'exit-intent' }, fire);
+    window.dispatchEvent(new Event('pointerup'));
+    expect(window.history.state).toEqual({ modalBackEntry: true });
+
+    first();
+    expect(window.history.state).toEqual({ modalBackEntry: true });
+    const removed = popState();
+    second();
+    await removed;
+    expect(window.history.state).toBeNull();
+    expect(fire).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import type { ModalFrequencyContent, ModalTriggerContent } from '../content/schema';
+import { readItem, writeItem } from './storage';
+
+// --- Modals ---
+//
+// Triggers and frequency caps for the page's popups (the "última chance"
+// offer, the exit-intent lead form). A modal watches its triggers after mount
+// and opens on the first one to fire, unless its cap for this visitor is
+// reached or another modal is already open: only one is shown at a time.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Upward scroll speed, in pixels per millisecond, that reads as heading back to the address bar. */
+const FAST_SCROLL_UP_SPEED = 1.5;
+/** Window over which the scroll speed is measured. */
+const SCROLL_SAMPLE_MS = 100;
+
+export const modalStorageKey = (id: string) => `modal-shows:${id}`;
+
+/** When the modal was shown to this visitor, as epoch timestamps. */
+export const readModalShows = (id: string): number[] => {
+  try {
+    const parsed = JSON.parse(readItem('local', modalStorageKey(id)) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((at): at is number => typeof at === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Whether the visitor has been shown the modal fewer than `maxShows` times in the last `periodHours`. */
+export const isUnderCap = (shows: number[], { maxShows, periodHours }: ModalFrequencyContent, now = Date.now()) =>
+  shows.filter(at => now - at < periodHours * HOUR_MS).length < maxShows;
+
+/** Records a show, dropping the ones too old to count against the cap. */
+export const recordModalShow = (id: string, frequency: ModalFrequencyContent, now = Date.now()) => {
+  const recent = readModalShows(id).filter(at => now - at < frequency.periodHours * HOUR_MS);
+  writeItem('local', modalStorageKey(id), JSON.stringify([...recent, now]));
+};
+
+let openModal: string | null = null;
+
+/** Takes the page's single modal slot; false when another modal holds it. */
+export const claimModal = (id: string): boolean => {
+  if (openModal !== null && openModal !== id) return false;
+  openModal = id;
+  return true;
+};
+
+export const releaseModal = (id: string) => {
+  if (openModal === id) openModal = null;
+};
+
+export interface ScrollSample {
+  y: number;
+  at: number;
+}
+
+/** Whether the page moved up fast enough between two scroll samples to count as exit intent. */
+export const isFastScrollUp = (from: ScrollSample, to: ScrollSample) =>
+  to.at > from.at && (from.y - to.y) / (to.at - from.at) >= FAST_SCROLL_UP_SPEED;
+
+const isTouchScreen = () => typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+
+/** Marks the history entry pushed to catch the back button. */
+const BACK_ENTRY_STATE = 'modalBackEntry';
+
+let backEntryAdded = false;
+let backWatchers = 0;
+
+const isOnBackEntry = () => {
+  const state: unknown = window.history.state;
+  return typeof state === 'object' && state !== null && BACK_ENTRY_STATE in state;
+};
+
+// Browsers skip history entries added without a user gesture when going
+// back, so the extra entry that catches the back button is pushed on the
+// first tap, and shared by every modal watching for it. It has the same URL,
+// so the router doesn't notice it. Once no modal watches any more, the entry
+// is taken off again if the visitor is still on it; otherwise the back
+// button would need two presses to leave the page.
+const watchBackButton = (fire: () => void) => {
+  backWatchers++;
+  const onPopState = () => {
+    // Only leaving the entry counts; taking it off ourselves doesn't.
+    if (backEntryAdded && !isOnBackEntry()) fire();
+  };
+  const addEntry = () => {
+    if (backEntryAdded) return;
+    backEntryAdded = true;
+    window.history.pushState({ ...window.history.state, [BACK_ENTRY_STATE]: true }, '');
+  };
+  window.addEventListener('pointerup', addEntry, { once: true });
+  window.addEventListener('popstate', onPopState);
+  return () => {
+    window.removeEventListener('pointerup', addEntry);
+    window.removeEventListener('popstate', onPopState);
+    backWatchers--;
+    if (backWatchers === 0 && backEntryAdded && isOnBackEntry()) {
+      backEntryAdded = false;
+      window.history.back();
+    }
+  };
+};
+
+const watchExitIntent = (fire: () => void) => {
+  const onMouseOut = (e: MouseEvent) => {
+    if (e.relatedTarget === null && e.clientY <= 0) fire();
+  };
+  document.addEventListener('mouseout', onMouseOut);
+  if (!isTouchScreen()) return () => document.removeEventListener('mouseout', onMouseOut);
+
+  let sample: ScrollSample = { y: window.scrollY, at: performance.now() };
+  const onScroll = () => {
+    const next = { y: window.scrollY, at: performance.now() };
+    if (next.at - sample.at < SCROLL_SAMPLE_MS) return;
+    // Only once the visitor is past the first screen: near the top there is nothing to leave.
+    if (isFastScrollUp(sample, next) && sample.y > window.innerHeight) fire();
+    sample = next;
+  };
+  window.addEventListener('scroll', onScroll, { passive: true });
+  const stopBackButton = watchBackButton(fire);
+  return () => {
+    document.removeEventListener('mouseout', onMouseOut);
+    window.removeEventListener('scroll', onScroll);
+    stopBackButton();
+  };
+};
+
+const watchScrollPast = (section: string, fire: () => void) => {
+  const element = document.getElementById(section);
+  if (!element || typeof IntersectionObserver === 'undefined') return () => {};
+  const observer = new IntersectionObserver(([entry]) => {
+    if (!entry.isIntersecting && entry.boundingClientRect.bottom < 0) fire();
+  });
+  observer.observe(element);
+  return () => observer.disconnect();
+};
+
+/** Starts watching for `trigger`; returns a function that stops. */
+export const watchTrigger = (trigger: ModalTriggerContent, fire: () => void): (() => void) => {
+  switch (trigger.type) {
+    case 'exit-intent':
+      return watchExitIntent(fire);
+    case 'time-on-page': {
+      const timer = setTimeout(fire, trigger.seconds * 1000);
+      return () => clearTimeout(timer);
+    }
+    case 'scroll-past':
+      return watchScrollPast(trigger.section, fire);
+  }
+};
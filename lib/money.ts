@@ -0,0 +1,20 @@
+import type { Money } from '../content/schema';
+
+/** Formats an amount without the currency symbol, e.g. 3700 -> "37,00". */
+export const formatAmount = ({ amountCents }: Money, locale = 'pt-BR') =>
+  new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    .format(amountCents / 100);
+
+/** Returns the localized currency symbol for an amount, e.g. "R$". */
+export const currencySymbol = ({ currency }: Money, locale = 'pt-BR') =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? currency;
+
+/** Plain decimal amount for machine-readable prices, e.g. 3700 -> "37.00". */
+export const toDecimalString = ({ amountCents }: Money) =>
+  `${Math.floor(amountCents / 100)}.${String(amountCents % 100).padStart(2, '0')}`;
+
+/** Formats an amount with its currency symbol, e.g. 3700 -> "R$ 37,00". */
+export const formatMoney = (money: Money, locale = 'pt-BR') =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(money.amountCents / 100);
@@ -0,0 +1,55 @@
+import { readItem, writeItem } from './storage';
+
+// --- Motion ---
+//
+// Animations follow the operating system's "reduce motion" setting unless the
+// visitor overrides it with the toggle in the footer. The effective choice is
+// mirrored on `<html data-motion="...">`, where the stylesheet in index.html
+// stops every CSS animation and transition for "reduce"; components that
+// animate from JavaScript read it through `usePrefersReducedMotion`.
+
+/** "system" follows `prefers-reduced-motion`. */
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+export const MOTION_STORAGE_KEY = 'motion';
+
+const MOTION_PREFERENCES: readonly MotionPreference[] = ['system', 'reduce', 'full'];
+
+type MotionListener = (preference: MotionPreference) => void;
+
+const listeners = new Set<MotionListener>();
+let current: MotionPreference = 'system';
+
+const applyToDocument = (preference: MotionPreference) => {
+  if (typeof document === 'undefined') return;
+  if (preference === 'system') delete document.documentElement.dataset.motion;
+  else document.documentElement.dataset.motion = preference;
+};
+
+/** Loads the visitor's stored override and applies it to the page. Call once at startup. */
+export const initMotionPreference = () => {
+  const stored = readItem('local', MOTION_STORAGE_KEY);
+  current = MOTION_PREFERENCES.find(preference => preference === stored) ?? 'system';
+  applyToDocument(current);
+};
+
+export const getMotionPreference = () => current;
+
+export const setMotionPreference = (preference: MotionPreference) => {
+  current = preference;
+  writeItem('local', MOTION_STORAGE_KEY, preference);
+  applyToDocument(preference);
+  listeners.forEach(listener => listener(preference));
+};
+
+/** Calls `listener` whenever the visitor changes the preference; returns an unsubscribe function. */
+export const subscribeMotionPreference = (listener: MotionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Whether motion should be reduced, given the preference and the system setting. */
+export const isMotionReduced = (preference: MotionPreference, systemPrefersReduced: boolean) =>
+  preference === 'reduce' || (preference === 'system' && systemPrefersReduced);
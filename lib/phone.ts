@@ -0,0 +1,52 @@
+// --- Brazilian Phone Numbers ---
+//
+// WhatsApp numbers are typed as "(11) 98765-4321". We accept an optional +55
+// country code and store the digits with it, e.g. "5511987654321".
+
+/** Brazilian numbers, or any international number for visitors abroad. */
+export type PhoneFormat = 'br' | 'international';
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+/** Strips formatting and the 55 country code, leaving DDD + number (at most 11 digits). */
+export const nationalDigits = (value: string) => {
+  let digits = onlyDigits(value);
+  if (digits.length > 11 && digits.startsWith('55')) digits = digits.slice(2);
+  return digits.slice(0, 11);
+};
+
+/** Formats as the visitor types: "(11", "(11) 9876", "(11) 98765-4321". */
+export const formatPhone = (value: string) => {
+  const digits = nationalDigits(value);
+  if (digits.length === 0) return '';
+  if (digits.length <= 2) return `(${digits}`;
+  const ddd = digits.slice(0, 2);
+  const rest = digits.slice(2);
+  const split = rest.length > 8 ? 5 : 4;
+  if (rest.length <= split) return `(${ddd}) ${rest}`;
+  return `(${ddd}) ${rest.slice(0, split)}-${rest.slice(split)}`;
+};
+
+/**
+ * A valid number has a real DDD (11–99, no zero digit) and either nine digits
+ * starting with 9 (mobile) or eight digits starting with 2–5 (landline).
+ */
+export const isValidPhone = (value: string) => {
+  const digits = nationalDigits(value);
+  if (!/^[1-9][1-9]/.test(digits)) return false;
+  const number = digits.slice(2);
+  return /^9\d{8}$/.test(number) || /^[2-5]\d{7}$/.test(number);
+};
+
+/** Returns the number in E.164 digits ("5511987654321"), as WhatsApp expects. */
+export const toE164Digits = (value: string) => `55${nationalDigits(value)}`;
+
+// Numbers from other countries: "+" and country code, then 8–15 digits in total (E.164).
+
+/** Keeps what an international number may contain while the visitor types. */
+export const formatInternationalPhone = (value: string) => {
+  const cleaned = value.replace(/[^\d+\s-]/g, '');
+  return cleaned.startsWith('+') ? `+${cleaned.slice(1).replace(/\+/g, '')}` : cleaned.replace(/\+/g, '');
+};
+
+export const isValidInternationalPhone = (value: string) => /^\d{8,15}$/.test(value.replace(/\D/g, ''));
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { CouponContent, InstallmentRules, Money, OrderBumpContent, PlanContent } from '../content/schema';
+import { applyDiscount, checkoutPricingParams, findCoupon, installmentQuote, planOrderBumps, quotePlan, totalWithOrderBumps } from './pricing';
+
+const brl = (amountCents: number): Money => ({ amountCents, currency: 'BRL' });
+
+const plan: PlanContent = {
+  id: 'essencial',
+  name: 'Essencial',
+  features: [],
+  price: brl(3700),
+  anchorPrice: brl(9700),
+  checkoutUrl: 'https://pay.cartpanda.com/checkout/essencial',
+};
+
+const rules: InstallmentRules = { maxCount: 12, interestFreeCount: 1, monthlyInterestBps: 299 };
+
+const coupon: CouponContent = { code: 'PREGADOR10', discount: { type: 'percent', percent: 10 } };
+
+describe('applyDiscount', () => {
+  it('takes a percentage off, rounded to the cent', () => {
+    expect(applyDiscount(brl(3700), { type: 'percent', percent: 10 })).toEqual(brl(3330));
+    expect(applyDiscount(brl(3705), { type: 'percent', percent: 15 })).toEqual(brl(3149));
+  });
+
+  it('takes a fixed amount off, never going below zero', () => {
+    expect(applyDiscount(brl(3700), { type: 'amount', amount: brl(700) })).toEqual(brl(3000));
+    expect(applyDiscount(brl(3700), { type: 'amount', amount: brl(5000) })).toEqual(brl(0));
+  });
+});
+
+describe('installmentQuote', () => {
+  it('charges compound interest above the interest-free count', () => {
+    expect(installmentQuote(brl(10000), rules)).toEqual({ count: 12, amount: brl(1005), total: brl(12060), interestFree: false });
+  });
+
+  it('splits evenly without interest', () => {
+    expect(installmentQuote(brl(3600), { maxCount: 12, interestFreeCount: 12, monthlyInterestBps: 299 })).toEqual({
+      count: 12,
+      amount: brl(300),
+      total: brl(3600),
+      interestFree: true,
+    });
+  });
+
+  it('does not call a split interest-free when rounding makes it cost more than the price', () => {
+    expect(installmentQuote(brl(3700), { maxCount: 7, interestFreeCount: 7, monthlyInterestBps: 0 })).toEqual({
+      count: 7,
+      amount: brl(529),
+      total: brl(3703),
+      interestFree: false,
+    });
+  });
+
+  it('offers fewer installments below the minimum installment', () => {
+    expect(installmentQuote(brl(3700), { ...rules, minInstallment: brl(500) })?.count).toBe(7);
+    expect(installmentQuote(brl(3700), { ...rules, minInstallment: brl(2000) })).toBeNull();
+  });
+});
+
+describe('quotePlan', () => {
+  it('quotes the price against the anchor price', () => {
+    expect(quotePlan(plan)).toEqual({ price: brl(3700), anchorPrice: brl(9700), discountPercent: 61, couponSavings: null, installments: null });
+  });
+
+  it('applies a coupon and shows the savings', () => {
+    const quote = quotePlan(plan, { coupon, rules });
+    expect(quote.price).toEqual(brl(3330));
+    expect(quote.couponSavings).toEqual(brl(370));
+    expect(quote.discountPercent).toBe(65);
+    expect(quote.installments?.count).toBe(12);
+  });
+
+  it('charges the anchor price, without coupons, once the full price is back', () => {
+    expect(quotePlan(plan, { coupon, fullPrice: true })).toEqual({
+      price: brl(9700),
+      anchorPrice: null,
+      discountPercent: null,
+      couponSavings: null,
+      installments: null,
+    });
+  });
+
+  it('has no installments for a free plan', () => {
+    expect(quotePlan(plan, { rules, coupon: { code: 'GRATIS', discount: { type: 'percent', percent: 100 } } }).installments).toBeNull();
+  });
+});
+
+describe('findCoupon', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const coupons: CouponContent[] = [coupon, { code: 'BLACK', discount: { type: 'amount', amount: brl(1000) }, expiresAt: '2026-10-01T00:00:00Z' }];
+
+  it('matches codes ignoring case and surrounding spaces', () => {
+    expect(findCoupon(coupons, ' pregador10 ', now)).toBe(coupon);
+  });
+
+  it('ignores unknown and expired codes', () => {
+    expect(findCoupon(coupons, 'NOPE', now)).toBeUndefined();
+    expect(findCoupon(coupons, 'BLACK', now)).toBeUndefined();
+    expect(findCoupon(coupons, 'BLACK', Date.parse('2026-09-30T00:00:00Z'))?.code).toBe('BLACK');
+  });
+});
+
+describe('order bumps', () => {
+  const mentoria: OrderBumpContent = { id: 'mentoria', title: 'Mentoria', description: '...', price: brl(4700), plans: ['completo'] };
+  const ebook: OrderBumpContent = { id: 'ebook', title: 'E-book', description: '...', price: brl(990) };
+
+  it('offers a bump with every plan, or only with the plans it names', () => {
+    expect(planOrderBumps([mentoria, ebook], plan)).toEqual([ebook]);
+    expect(planOrderBumps([mentoria, ebook], { ...plan, id: 'completo' })).toEqual([mentoria, ebook]);
+  });
+
+  it('adds the ticked bumps to the price', () => {
+    expect(totalWithOrderBumps(brl(3330), [mentoria, ebook])).toEqual(brl(9020));
+    expect(totalWithOrderBumps(brl(3330), [])).toEqual(brl(3330));
+  });
+
+  it('sends the coupon and the ticked bumps to the checkout', () => {
+    expect(checkoutPricingParams(coupon, [mentoria, ebook])).toEqual({ coupon: 'PREGADOR10', bumps: 'mentoria,ebook' });
+    expect(checkoutPricingParams(undefined, [])).toEqual({});
+  });
+});
@@ -0,0 +1,142 @@
+import type { CouponContent, CouponDiscount, InstallmentRules, Money, OrderBumpContent, PlanContent } from '../content/schema';
+import { readItem, writeItem } from './storage';
+
+// --- Pricing ---
+//
+// Every amount is an integer number of cents. Derived amounts (coupon
+// discounts, installments) are rounded to whole cents exactly once, so what
+// the page shows adds up.
+
+/** Landing page parameter with a coupon code, e.g. `?cupom=PREGADOR10`. */
+export const COUPON_PARAM = 'cupom';
+/** Checkout URL parameter CartPanda applies a coupon code from. */
+export const COUPON_CHECKOUT_PARAM = 'coupon';
+/** Checkout URL parameter with the ids of the order bumps the visitor ticked, comma-separated. */
+export const ORDER_BUMPS_CHECKOUT_PARAM = 'bumps';
+
+const COUPON_STORAGE_KEY = 'coupon-code';
+
+// Kept in memory too, for browsers where sessionStorage is unavailable.
+let captured: string | null = null;
+
+export interface InstallmentQuote {
+  count: number;
+  amount: Money;
+  /** `count` times `amount`: what the buyer pays in the end. */
+  total: Money;
+  /** Whether `total` is the price itself. */
+  interestFree: boolean;
+}
+
+export interface PlanQuote {
+  /** What the visitor pays. */
+  price: Money;
+  /** Struck-through "from" price, if the visitor pays less than it. */
+  anchorPrice: Money | null;
+  /** Whole percent off the anchor price, rounded down. */
+  discountPercent: number | null;
+  /** How much the coupon took off. */
+  couponSavings: Money | null;
+  installments: InstallmentQuote | null;
+}
+
+interface QuoteOptions {
+  rules?: InstallmentRules;
+  coupon?: CouponContent;
+  /** The offer has expired with `show-full-price`: charge the anchor price, without coupons. */
+  fullPrice?: boolean;
+}
+
+const withCents = (amountCents: number, { currency }: Money): Money => ({ amountCents, currency });
+
+export const applyDiscount = (price: Money, discount: CouponDiscount): Money => {
+  const off = discount.type === 'percent'
+    ? Math.round((price.amountCents * discount.percent) / 100)
+    : discount.amount.amountCents;
+  return withCents(Math.max(0, price.amountCents - off), price);
+};
+
+export const discountPercent = (anchorPrice: Money, price: Money) =>
+  Math.floor(((anchorPrice.amountCents - price.amountCents) * 100) / anchorPrice.amountCents);
+
+/**
+ * The longest installment plan the rules allow for a price: up to
+ * `interestFreeCount` installments are a plain split, beyond that a fixed
+ * payment with compound monthly interest (Price table). Installments are
+ * rounded up to the cent, so a plain split that doesn't come out even costs a
+ * few cents more than the price and isn't called interest-free. Null when the
+ * price can't be split.
+ */
+export const installmentQuote = (price: Money, rules: InstallmentRules): InstallmentQuote | null => {
+  const byMinimum = rules.minInstallment
+    ? Math.floor(price.amountCents / rules.minInstallment.amountCents)
+    : rules.maxCount;
+  const count = Math.min(rules.maxCount, byMinimum);
+  if (count < 2) return null;
+
+  const rate = rules.monthlyInterestBps / 10_000;
+  const amountCents = count <= rules.interestFreeCount || rate === 0
+    ? Math.ceil(price.amountCents / count)
+    : Math.ceil((price.amountCents * rate) / (1 - (1 + rate) ** -count));
+  return {
+    count,
+    amount: withCents(amountCents, price),
+    total: withCents(amountCents * count, price),
+    interestFree: amountCents * count === price.amountCents,
+  };
+};
+
+export const quotePlan = (plan: PlanContent, { rules, coupon, fullPrice = false }: QuoteOptions = {}): PlanQuote => {
+  if (fullPrice && plan.anchorPrice) {
+    const price = plan.anchorPrice;
+    return { price, anchorPrice: null, discountPercent: null, couponSavings: null, installments: rules ? installmentQuote(price, rules) : null };
+  }
+
+  const price = coupon ? applyDiscount(plan.price, coupon.discount) : plan.price;
+  const savings = plan.price.amountCents - price.amountCents;
+  const anchorPrice = plan.anchorPrice ?? null;
+  return {
+    price,
+    anchorPrice,
+    discountPercent: anchorPrice ? discountPercent(anchorPrice, price) : null,
+    couponSavings: savings > 0 ? withCents(savings, price) : null,
+    installments: rules && price.amountCents > 0 ? installmentQuote(price, rules) : null,
+  };
+};
+
+/** The order bumps offered with a plan: the ones without `plans`, and the ones naming it. */
+export const planOrderBumps = (orderBumps: OrderBumpContent[], plan: PlanContent) =>
+  orderBumps.filter(orderBump => !orderBump.plans || orderBump.plans.includes(plan.id));
+
+/** What the visitor pays for a plan's price plus the order bumps they ticked. */
+export const totalWithOrderBumps = (price: Money, orderBumps: OrderBumpContent[]): Money =>
+  withCents(orderBumps.reduce((sum, orderBump) => sum + orderBump.price.amountCents, price.amountCents), price);
+
+/** Checkout URL parameters for the coupon that applies and the order bumps ticked, if any. */
+export const checkoutPricingParams = (coupon: CouponContent | undefined, orderBumps: OrderBumpContent[] = []): Record<string, string> => ({
+  ...(coupon && { [COUPON_CHECKOUT_PARAM]: coupon.code }),
+  ...(orderBumps.length > 0 && { [ORDER_BUMPS_CHECKOUT_PARAM]: orderBumps.map(orderBump => orderBump.id).join(',') }),
+});
+
+/** The coupon for a code, ignoring case, unless it is unknown or expired. */
+export const findCoupon = (coupons: CouponContent[], code: string, now = Date.now()): CouponContent | undefined => {
+  const wanted = code.trim().toUpperCase();
+  return coupons.find(coupon =>
+    coupon.code.toUpperCase() === wanted && (!coupon.expiresAt || Date.parse(coupon.expiresAt) > now)
+  );
+};
+
+/**
+ * Records the `?cupom=` code of the landing URL for the rest of the session,
+ * so it still applies after the visitor navigates or reloads without it.
+ */
+export const captureCouponCode = (search = typeof window === 'undefined' ? '' : window.location.search): string | null => {
+  const code = new URLSearchParams(search).get(COUPON_PARAM)?.trim();
+  if (code) {
+    writeItem('session', COUPON_STORAGE_KEY, code);
+    captured = code;
+  }
+  return getCouponCode();
+};
+
+export const getCouponCode = (): string | null => captured ?? readItem('session', COUPON_STORAGE_KEY);
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  parseRefundReceipt,
+  RefundRequest,
+  RefundRequestInput,
+  RefundSubmissionError,
+  refundDeadline,
+  validateRefund,
+  webhookRefundAdapter,
+} from './refunds';
+
+const input = (purchaseDate: string): RefundRequestInput => ({
+  orderId: 'PED-48213',
+  email: 'maria@example.com',
+  purchaseDate,
+  reason: '',
+});
+
+const request: RefundRequest = { ...input('2026-10-15'), locale: 'pt-BR', createdAt: '2026-10-19T12:00:00.000Z' };
+
+const TODAY = '2026-10-19';
+
+describe('validateRefund', () => {
+  it('accepts a request on the day of the purchase', () => {
+    expect(validateRefund(input(TODAY), 7, TODAY)).toEqual({});
+  });
+
+  it('accepts a request on the last day of the window', () => {
+    expect(validateRefund(input('2026-10-12'), 7, TODAY)).toEqual({});
+  });
+
+  it('turns away a request the day after the window ends', () => {
+    expect(validateRefund(input('2026-10-11'), 7, TODAY)).toEqual({ purchaseDate: 'refund.errors.expired' });
+  });
+
+  it('rejects a purchase date in the future', () => {
+    expect(validateRefund(input('2026-10-20'), 7, TODAY)).toEqual({ purchaseDate: 'refund.errors.futureDate' });
+  });
+
+  it.each(['', '19/10/2026', '2026-10-1', 'ontem'])('rejects the malformed date %j', date => {
+    expect(validateRefund(input(date), 7, TODAY)).toEqual({ purchaseDate: 'refund.errors.purchaseDate' });
+  });
+
+  it('flags each invalid field with its message key', () => {
+    expect(validateRefund({ orderId: ' 1 ', email: 'maria@', purchaseDate: TODAY, reason: 'x'.repeat(1001) }, 7, TODAY)).toEqual({
+      orderId: 'refund.errors.orderId',
+      email: 'refund.errors.email',
+      reason: 'refund.errors.reason',
+    });
+  });
+});
+
+describe('refundDeadline', () => {
+  it('adds the window to the purchase date', () => {
+    expect(refundDeadline('2026-10-12', 7)).toBe('2026-10-19');
+  });
+
+  it('rolls over month and year ends', () => {
+    expect(refundDeadline('2028-02-25', 7)).toBe('2028-03-03');
+    expect(refundDeadline('2026-12-28', 7)).toBe('2027-01-04');
+  });
+});
+
+describe('parseRefundReceipt', () => {
+  it('reads the protocol and status', () => {
+    expect(parseRefundReceipt({ protocol: 'RB-20261019-48213', status: 'in-review', extra: true })).toEqual({
+      protocol: 'RB-20261019-48213',
+      status: 'in-review',
+    });
+  });
+
+  it.each([
+    ['no body', null],
+    ['a missing protocol', { status: 'received' }],
+    ['an empty protocol', { protocol: '', status: 'received' }],
+    ['an unknown status', { protocol: 'RB-1', status: 'pending' }],
+  ])('returns null for %s', (_, body) => {
+    expect(parseRefundReceipt(body)).toBeNull();
+  });
+});
+
+describe('webhookRefundAdapter', () => {
+  const respond = (status: number, body: unknown) =>
+    vi.fn(async (_url: RequestInfo | URL, _init?: RequestInit) => new Response(JSON.stringify(body), { status }));
+
+  it('posts the request as JSON and returns the receipt', async () => {
+    const fetchImpl = respond(201, { protocol: 'RB-20261019-48213', status: 'received' });
+    const receipt = await webhookRefundAdapter('https://hooks.example.com/refunds', fetchImpl).submit(request);
+
+    expect(receipt).toEqual({ protocol: 'RB-20261019-48213', status: 'received' });
+    expect(fetchImpl).toHaveBeenCalledWith('https://hooks.example.com/refunds', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(fetchImpl.mock.calls[0][1]!.body as string)).toEqual(request);
+  });
+
+  it('fails with the status of a non-2xx response', async () => {
+    const submit = webhookRefundAdapter('https://hooks.example.com/refunds', respond(503, {})).submit(request);
+    await expect(submit).rejects.toBeInstanceOf(RefundSubmissionError);
+    await expect(submit).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('fails when the response has no protocol', async () => {
+    const submit = webhookRefundAdapter('https://hooks.example.com/refunds', respond(200, { status: 'received' })).submit(request);
+    await expect(submit).rejects.toThrow(RefundSubmissionError);
+    await expect(submit).rejects.toMatchObject({ status: 200 });
+  });
+
+  it('fails without a status when the server is unreachable', async () => {
+    const fetchImpl = vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    const submit = webhookRefundAdapter('https://hooks.example.com/refunds', fetchImpl).submit(request);
+    await expect(submit).rejects.toMatchObject({ name: 'RefundSubmissionError', status: undefined });
+  });
+});
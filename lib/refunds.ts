@@ -0,0 +1,133 @@
+import type { MessageKey } from '../i18n/messages';
+import { isValidEmail } from './leads';
+
+// --- Refunds ---
+//
+// Refund requests for the unconditional guarantee, submitted through an
+// adapter like leads: a webhook in production, the local mock API while
+// developing. The backend answers with a protocol number and the request's
+// status. The form checks the guarantee window itself, so a late request is
+// turned away before it is sent.
+
+export interface RefundRequestInput {
+  orderId: string;
+  /** E-mail used at checkout. */
+  email: string;
+  /** "YYYY-MM-DD", from the date input. */
+  purchaseDate: string;
+  reason: string;
+}
+
+export interface RefundRequest extends RefundRequestInput {
+  locale: string;
+  createdAt: string;
+}
+
+export const REFUND_STATUSES = ['received', 'in-review', 'approved', 'rejected'] as const;
+
+/** Labelled through the `refund.status.*` messages. */
+export type RefundStatus = typeof REFUND_STATUSES[number];
+
+export interface RefundReceipt {
+  /** Reference the buyer quotes to support, e.g. "RB-20261019-48213". */
+  protocol: string;
+  status: RefundStatus;
+}
+
+export interface RefundAdapter {
+  submit(request: RefundRequest): Promise<RefundReceipt>;
+}
+
+/** Field errors, as message catalog keys. */
+export type RefundErrors = Partial<Record<keyof RefundRequestInput, MessageKey>>;
+
+export class RefundSubmissionError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'RefundSubmissionError';
+    this.status = status;
+  }
+}
+
+export const MAX_REASON_LENGTH = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const parseDate = (date: string) => (DATE_PATTERN.test(date) ? Date.parse(`${date}T00:00:00Z`) : NaN);
+
+/** A local calendar date as "YYYY-MM-DD", e.g. today for the visitor. */
+export const toDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** Last day a refund can be requested for a purchase, as "YYYY-MM-DD". */
+export const refundDeadline = (purchaseDate: string, windowDays: number) =>
+  new Date(parseDate(purchaseDate) + windowDays * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Checks the fields and the guarantee window: up to `windowDays` days after
+ * the purchase date, counting calendar days in the visitor's time zone.
+ */
+export const validateRefund = (
+  { orderId, email, purchaseDate, reason }: RefundRequestInput,
+  windowDays: number,
+  today = toDateInput(new Date())
+): RefundErrors => {
+  const errors: RefundErrors = {};
+  if (orderId.trim().length < 3) errors.orderId = 'refund.errors.orderId';
+  if (!isValidEmail(email)) errors.email = 'refund.errors.email';
+  const daysSincePurchase = (parseDate(today) - parseDate(purchaseDate)) / DAY_MS;
+  if (Number.isNaN(daysSincePurchase)) errors.purchaseDate = 'refund.errors.purchaseDate';
+  else if (daysSincePurchase < 0) errors.purchaseDate = 'refund.errors.futureDate';
+  else if (daysSincePurchase > windowDays) errors.purchaseDate = 'refund.errors.expired';
+  if (reason.length > MAX_REASON_LENGTH) errors.reason = 'refund.errors.reason';
+  return errors;
+};
+
+export const normalizeRefund = (input: RefundRequestInput, locale: string): RefundRequest => ({
+  orderId: input.orderId.trim(),
+  email: input.email.trim().toLowerCase(),
+  purchaseDate: input.purchaseDate,
+  reason: input.reason.trim(),
+  locale,
+  createdAt: new Date().toISOString(),
+});
+
+/** The receipt in a backend response, or null when it isn't one. */
+export const parseRefundReceipt = (body: unknown): RefundReceipt | null => {
+  const { protocol, status } = (body ?? {}) as Partial<Record<keyof RefundReceipt, unknown>>;
+  if (typeof protocol !== 'string' || protocol === '') return null;
+  if (!REFUND_STATUSES.includes(status as RefundStatus)) return null;
+  return { protocol, status: status as RefundStatus };
+};
+
+/**
+ * POSTs the request as JSON and reads the receipt from the response. Not
+ * retried automatically: a request that timed out may still have been
+ * registered, and a second one would open a duplicate protocol.
+ */
+export const webhookRefundAdapter = (url: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): RefundAdapter => ({
+  async submit(request) {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+    } catch {
+      throw new RefundSubmissionError('Sem conexão com o servidor.');
+    }
+    if (!response.ok) throw new RefundSubmissionError(`O servidor respondeu ${response.status}.`, response.status);
+    const receipt = parseRefundReceipt(await response.json().catch(() => null));
+    if (!receipt) throw new RefundSubmissionError('Resposta sem número de protocolo.', response.status);
+    return receipt;
+  },
+});
+
+/** The adapter configured for this build (`REFUND_WEBHOOK_URL`), or null when the form is disabled. */
+export const createRefundAdapter = (url = process.env.REFUND_WEBHOOK_URL): RefundAdapter | null =>
+  url ? webhookRefundAdapter(url) : null;
@@ -0,0 +1,46 @@
+// --- Scroll Reveal ---
+//
+// One IntersectionObserver serves every element waiting to be revealed,
+// instead of one per section. An element is dropped from it as soon as it
+// has been seen once, so the observer's work shrinks as the visitor scrolls.
+
+type RevealCallback = () => void;
+
+const pending = new Map<Element, RevealCallback>();
+let observer: IntersectionObserver | null = null;
+
+const unobserve = (element: Element) => {
+  pending.delete(element);
+  observer?.unobserve(element);
+  if (pending.size === 0) {
+    observer?.disconnect();
+    observer = null;
+  }
+};
+
+const onIntersect = (entries: IntersectionObserverEntry[]) => {
+  for (const entry of entries) {
+    if (!entry.isIntersecting) continue;
+    const reveal = pending.get(entry.target);
+    unobserve(entry.target);
+    reveal?.();
+  }
+};
+
+/**
+ * Calls `onReveal` once, the first time `element` scrolls into view. Returns
+ * a function that stops waiting for it (e.g. on unmount).
+ */
+export const observeReveal = (element: Element, onReveal: RevealCallback): (() => void) => {
+  // Without IntersectionObserver there is no way to tell; just show it.
+  if (typeof IntersectionObserver === 'undefined') {
+    onReveal();
+    return () => {};
+  }
+  observer ??= new IntersectionObserver(onIntersect);
+  pending.set(element, onReveal);
+  observer.observe(element);
+  return () => {
+    if (pending.get(element) === onReveal) unobserve(element);
+  };
+};
@@ -0,0 +1,67 @@
+import type { CourseContent } from '../content/schema';
+import { setPaths } from '../content/paths';
+import { localeFromPath } from '../i18n/detect';
+import { LOCALE_INFO } from '../i18n/locales';
+
+// --- Routes ---
+//
+// Paths are the same in every locale; the locale prefix (`/es`, `/en`) comes
+// in front, e.g. `/es/termos`. Besides the fixed pages, each entry in the
+// content's `landings` is a variant of the sales page at `/<id>`.
+
+export type PageName = 'terms' | 'privacy' | 'support' | 'refund' | 'thanks';
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'landing'; landing: string }
+  | { name: PageName }
+  | { name: 'not-found' };
+
+export const PAGE_PATHS: Record<PageName, string> = {
+  terms: '/termos',
+  privacy: '/privacidade',
+  support: '/suporte',
+  refund: '/reembolso',
+  thanks: '/obrigado',
+};
+
+/** Splits "/es/termos" into the locale prefix ("/es") and the route path ("/termos"). */
+export const splitLocalePrefix = (pathname: string) => {
+  const locale = localeFromPath(pathname);
+  const prefix = locale ? LOCALE_INFO[locale].pathPrefix : '';
+  const path = pathname.slice(prefix.length).replace(/\/+$/, '') || '/';
+  return { prefix, path };
+};
+
+/** The route for a path without its locale prefix. */
+export const matchRoute = (path: string, landingIds: readonly string[]): Route => {
+  const normalized = path.replace(/\/+$/, '').toLowerCase() || '/';
+  if (normalized === '/') return { name: 'home' };
+  const page = (Object.keys(PAGE_PATHS) as PageName[]).find(name => PAGE_PATHS[name] === normalized);
+  if (page) return { name: page };
+  const landing = landingIds.find(id => `/${id}` === normalized);
+  return landing ? { name: 'landing', landing } : { name: 'not-found' };
+};
+
+/** Path of a route without the locale prefix; not-found has none. */
+export const routePath = (route: Route): string | null => {
+  switch (route.name) {
+    case 'home': return '/';
+    case 'landing': return `/${route.landing}`;
+    case 'not-found': return null;
+    default: return PAGE_PATHS[route.name];
+  }
+};
+
+/** Every prerenderable path of the site, given its landing ids. */
+export const sitePaths = (landingIds: readonly string[]): string[] => [
+  '/',
+  ...landingIds.map(id => `/${id}`),
+  ...Object.values(PAGE_PATHS),
+];
+
+/** The sales page content for a landing variant (or the base content when it has no such landing). */
+export const landingContent = (content: CourseContent, landingId?: string): CourseContent => {
+  const landing = content.landings.find(candidate => candidate.id === landingId);
+  return landing ? setPaths(content, landing.overrides) : content;
+};
@@ -0,0 +1,22 @@
+// --- Scroll Position ---
+
+export interface SectionBounds {
+  id: string;
+  /** Viewport-relative edges, as from `getBoundingClientRect()`. */
+  top: number;
+  bottom: number;
+}
+
+/** How far the page is scrolled, from 0 (top) to 1 (bottom). A page that doesn't scroll counts as read. */
+export const scrollProgress = (scrollY: number, viewportHeight: number, scrollHeight: number) => {
+  const scrollable = scrollHeight - viewportHeight;
+  if (scrollable <= 0) return 1;
+  return Math.min(1, Math.max(0, scrollY / scrollable));
+};
+
+/**
+ * The section under the reading line (`line` px from the top of the
+ * viewport), or null between and outside the listed sections.
+ */
+export const currentSection = (sections: SectionBounds[], line: number): string | null =>
+  sections.find(section => section.top <= line && section.bottom > line)?.id ?? null;
@@ -0,0 +1,170 @@
+import type { CourseContent, FAQContent } from '../content/schema';
+import { DEFAULT_LOCALE, Locale, LOCALE_INFO, LOCALES } from '../i18n/locales';
+import { MESSAGES } from '../i18n/messages';
+import { toDecimalString } from './money';
+import { landingContent, Route, routePath } from './routes';
+import { aggregateRating } from './socialProof';
+
+// --- SEO ---
+//
+// The head tags (description, link previews, canonical URL) and the
+// schema.org structured data are built from the same content the page
+// renders, so the FAQ rich result always matches the visible FAQ. They are
+// rendered to HTML once, both by the prerenderer and on the client.
+
+export interface MetaTag {
+  /** `name` for regular and Twitter tags, `property` for Open Graph. */
+  attribute: 'name' | 'property';
+  key: string;
+  content: string;
+}
+
+export interface LinkTag {
+  rel: string;
+  href: string;
+  hreflang?: string;
+}
+
+export interface HeadTags {
+  title: string;
+  meta: MetaTag[];
+  links: LinkTag[];
+  jsonLd: Record<string, unknown>[];
+}
+
+interface HeadTagsOptions {
+  locale: Locale;
+  /** Public origin of the site, e.g. "https://example.com". Without it, URL tags are left out. */
+  siteUrl?: string;
+  /** Route path without the locale prefix; the sales page ("/") by default. */
+  path?: string;
+  /** Title of a page other than the sales page, shown before the course name. */
+  pageTitle?: string;
+  /** Keeps the page out of search results, e.g. the thank-you page. */
+  noindex?: boolean;
+}
+
+/** Marks the tags this module owns, so the client can replace them. */
+export const HEAD_TAG_ATTRIBUTE = 'data-seo';
+
+/** Absolute URL of a page in a locale, e.g. "https://example.com/es/" or "https://example.com/es/termos". */
+export const pageUrl = (siteUrl: string, locale: Locale, path = '/') =>
+  `${siteUrl.replace(/\/+$/, '')}${LOCALE_INFO[locale].pathPrefix}${path}`;
+
+export const faqJsonLd = (faq: FAQContent) => ({
+  '@context': 'https://schema.org',
+  '@type': 'FAQPage',
+  mainEntity: faq.items.map(item => ({
+    '@type': 'Question',
+    name: item.question,
+    acceptedAnswer: { '@type': 'Answer', text: item.answer },
+  })),
+});
+
+export const courseJsonLd = (course: CourseContent, locale: Locale, url?: string) => {
+  const { deadline } = course.offer;
+  const rating = aggregateRating(course.socialProof);
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Course',
+    name: course.name,
+    description: course.seo.description,
+    image: course.logo.src,
+    inLanguage: locale,
+    ...(url && { url }),
+    provider: { '@type': 'Organization', name: course.seo.provider },
+    hasCourseInstance: { '@type': 'CourseInstance', courseMode: 'Online' },
+    ...(rating && {
+      aggregateRating: { '@type': 'AggregateRating', ratingValue: rating.average, ratingCount: rating.count, bestRating: 5, worstRating: 1 },
+    }),
+    offers: course.pricing.plans.map(plan => ({
+      '@type': 'Offer',
+      name: plan.name,
+      category: 'Paid',
+      price: toDecimalString(plan.price),
+      priceCurrency: plan.price.currency,
+      availability: 'https://schema.org/InStock',
+      url: plan.checkoutUrl,
+      ...(deadline.type === 'fixed' && { priceValidUntil: deadline.expiresAt }),
+    })),
+  };
+};
+
+export const buildHeadTags = (course: CourseContent, { locale, siteUrl, path = '/', pageTitle, noindex }: HeadTagsOptions): HeadTags => {
+  const { description } = course.seo;
+  const title = pageTitle ? `${pageTitle} | ${course.name}` : course.seo.title;
+  const url = siteUrl ? pageUrl(siteUrl, locale, path) : undefined;
+
+  const meta: MetaTag[] = [
+    { attribute: 'name', key: 'description', content: description },
+    { attribute: 'property', key: 'og:type', content: 'website' },
+    { attribute: 'property', key: 'og:site_name', content: course.name },
+    { attribute: 'property', key: 'og:title', content: title },
+    { attribute: 'property', key: 'og:description', content: description },
+    { attribute: 'property', key: 'og:image', content: course.logo.src },
+    { attribute: 'property', key: 'og:image:alt', content: course.logo.alt },
+    { attribute: 'property', key: 'og:locale', content: LOCALE_INFO[locale].ogLocale },
+    ...LOCALES.filter(code => code !== locale).map<MetaTag>(code => (
+      { attribute: 'property', key: 'og:locale:alternate', content: LOCALE_INFO[code].ogLocale }
+    )),
+    { attribute: 'name', key: 'twitter:card', content: 'summary' },
+    { attribute: 'name', key: 'twitter:title', content: title },
+    { attribute: 'name', key: 'twitter:description', content: description },
+    { attribute: 'name', key: 'twitter:image', content: course.logo.src },
+  ];
+  if (noindex) meta.push({ attribute: 'name', key: 'robots', content: 'noindex' });
+
+  const links: LinkTag[] = [];
+  if (siteUrl && url) {
+    meta.push({ attribute: 'property', key: 'og:url', content: url });
+    links.push({ rel: 'canonical', href: url });
+    for (const code of LOCALES) links.push({ rel: 'alternate', hreflang: code, href: pageUrl(siteUrl, code, path) });
+    links.push({ rel: 'alternate', hreflang: 'x-default', href: pageUrl(siteUrl, DEFAULT_LOCALE, path) });
+  }
+
+  // The course and its FAQ are described once, on the pages that sell it.
+  const jsonLd = pageTitle ? [] : [courseJsonLd(course, locale, url), faqJsonLd(course.faq)];
+  return { title, meta, links, jsonLd };
+};
+
+/** The head tags of any route of the site, e.g. for the prerenderer. */
+export const routeHeadTags = (course: CourseContent, route: Route, { locale, siteUrl }: HeadTagsOptions): HeadTags => {
+  const path = routePath(route) ?? undefined;
+  const options = { locale, siteUrl: path ? siteUrl : undefined, path };
+  switch (route.name) {
+    case 'home':
+      return buildHeadTags(course, options);
+    case 'landing':
+      return buildHeadTags(landingContent(course, route.landing), options);
+    case 'terms':
+    case 'privacy':
+      return buildHeadTags(course, { ...options, pageTitle: course.legal[route.name].title });
+    case 'support':
+      return buildHeadTags(course, { ...options, pageTitle: MESSAGES[locale]['support.title'] });
+    case 'refund':
+      return buildHeadTags(course, { ...options, pageTitle: MESSAGES[locale]['refund.title'] });
+    case 'thanks':
+      return buildHeadTags(course, { ...options, pageTitle: course.thankYou.title, noindex: true });
+    case 'not-found':
+      return buildHeadTags(course, { ...options, pageTitle: MESSAGES[locale]['notFound.title'], noindex: true });
+  }
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// `<` is escaped so a "</script>" in the copy can't end the script element.
+const serializeJsonLd = (data: Record<string, unknown>) => JSON.stringify(data).replace(/</g, '\\u003c');
+
+/** Renders the tags as HTML for the document `<head>`. */
+export const renderHeadTags = ({ title, meta, links, jsonLd }: HeadTags): string => {
+  const marker = HEAD_TAG_ATTRIBUTE;
+  return [
+    `<title>${escapeHtml(title)}</title>`,
+    ...meta.map(tag => `<meta ${tag.attribute}="${escapeHtml(tag.key)}" content="${escapeHtml(tag.content)}" ${marker}>`),
+    ...links.map(link =>
+      `<link rel="${escapeHtml(link.rel)}"${link.hreflang ? ` hreflang="${escapeHtml(link.hreflang)}"` : ''} href="${escapeHtml(link.href)}" ${marker}>`
+    ),
+    ...jsonLd.map(data => `<script type="application/ld+json" ${marker}>${serializeJsonLd(data)}</script>`),
+  ].join('\n    ');
+};
@@ -0,0 +1,79 @@
+import type { SocialProofContent } from '../content/schema';
+
+// --- Social Proof ---
+
+export interface AggregateRating {
+  /** Rounded to one decimal, e.g. 4.8. */
+  average: number;
+  count: number;
+}
+
+/** A recent sale, as shown in the "acabou de se inscrever" notifications. */
+export interface RecentPurchase {
+  name: string;
+  city: string;
+  /** ISO 8601 date-time. */
+  purchasedAt: string;
+}
+
+/** Where recent purchases come from: the store's feed in production, a local JSON file in development. */
+export interface RecentPurchaseSource {
+  fetchRecent(): Promise<RecentPurchase[]>;
+}
+
+/** The configured rating, or the average of the testimonials; null with neither. */
+export const aggregateRating = ({ rating, testimonials }: SocialProofContent): AggregateRating | null => {
+  if (rating) return { average: Math.round(rating.average * 10) / 10, count: rating.count };
+  if (testimonials.length === 0) return null;
+  const total = testimonials.reduce((sum, testimonial) => sum + testimonial.rating, 0);
+  return { average: Math.round((total / testimonials.length) * 10) / 10, count: testimonials.length };
+};
+
+/** Only the first name is ever shown. */
+export const firstName = (name: string) => name.trim().split(/\s+/)[0] ?? '';
+
+/** Whole minutes since the purchase, at least 1. */
+export const minutesAgo = (purchasedAt: string, now = Date.now()) =>
+  Math.max(1, Math.floor((now - Date.parse(purchasedAt)) / 60_000));
+
+const isRecentPurchase = (value: unknown): value is RecentPurchase => {
+  const entry = value as Partial<RecentPurchase> | null;
+  return typeof entry?.name === 'string' && entry.name.trim() !== ''
+    && typeof entry.city === 'string' && entry.city.trim() !== ''
+    && typeof entry.purchasedAt === 'string' && !Number.isNaN(Date.parse(entry.purchasedAt));
+};
+
+/**
+ * Keeps well-formed purchases from the last `maxAgeHours`, newest first.
+ * Notifications about sales from last month would do more harm than good.
+ */
+export const recentPurchases = (entries: unknown, maxAgeHours = 48, now = Date.now()): RecentPurchase[] => {
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter(isRecentPurchase)
+    .filter(entry => now - Date.parse(entry.purchasedAt) <= maxAgeHours * 3_600_000 && Date.parse(entry.purchasedAt) <= now)
+    .sort((a, b) => Date.parse(b.purchasedAt) - Date.parse(a.purchasedAt));
+};
+
+/** GETs a JSON array of purchases; a failed request just means no notifications. */
+export const httpRecentPurchaseSource = (url: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): RecentPurchaseSource => ({
+  async fetchRecent() {
+    try {
+      const response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+      return response.ok ? recentPurchases(await response.json()) : [];
+    } catch {
+      return [];
+    }
+  },
+});
+
+/** A fixed list, e.g. in tests. */
+export const staticRecentPurchaseSource = (entries: RecentPurchase[]): RecentPurchaseSource => ({
+  async fetchRecent() {
+    return recentPurchases(entries);
+  },
+});
+
+/** The source configured for this build (`RECENT_PURCHASES_URL`), or null when notifications are off. */
+export const createRecentPurchaseSource = (url = process.env.RECENT_PURCHASES_URL): RecentPurchaseSource | null =>
+  url ? httpRecentPurchaseSource(url) : null;
@@ -0,0 +1,30 @@
+export type StorageArea = 'local' | 'session';
+
+/**
+ * Returns `localStorage`/`sessionStorage`, or null when it is unavailable
+ * (server rendering, Safari private mode, storage disabled by the browser).
+ */
+export const getStorage = (area: StorageArea): Storage | null => {
+  try {
+    if (typeof window === 'undefined') return null;
+    return area === 'local' ? window.localStorage : window.sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const readItem = (area: StorageArea, key: string): string | null => {
+  try {
+    return getStorage(area)?.getItem(key) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeItem = (area: StorageArea, key: string, value: string) => {
+  try {
+    getStorage(area)?.setItem(key, value);
+  } catch {
+    // Quota exceeded or storage blocked: the value just won't persist.
+  }
+};
@@ -0,0 +1,196 @@
+import type { CourseContent } from '../content/schema';
+import type { Route } from './routes';
+
+// --- Theme ---
+//
+// Design tokens: brand and surface colors, text colors, corner radii, fonts
+// and the logo. A theme becomes CSS variables (`--color-brand`,
+// `--radius-card-xl`, ...) that the Tailwind config in index.html maps to
+// classes such as `bg-brand`, `text-fg-muted` and `rounded-card-xl`, so no
+// component names a color or a font itself. The build uses the theme named by
+// `THEME`; a landing can pick another one.
+
+export interface ThemeColors {
+  /** Buttons, highlights and links. All colors are "#rrggbb". */
+  brand: string;
+  /** Brand color on hover and at the light end of gradients. */
+  brandLight: string;
+  /** Text on brand-colored backgrounds. */
+  onBrand: string;
+  page: string;
+  /** Background of alternating sections. */
+  pageAlt: string;
+  /** Cards, dialogs and form panels. */
+  surface: string;
+  surfaceRaised: string;
+  /** Main text; at low opacity, also borders and subtle fills (`border-fg/10`). */
+  fg: string;
+  fgSoft: string;
+  fgMuted: string;
+  fgSubtle: string;
+  /** Placeholders and fine print. */
+  fgFaint: string;
+  /** Centers of the background glows behind the hero and the final call to action. */
+  heroGlow: string;
+  ctaGlow: string;
+  /** Discount badges, form errors and the pain points' crosses. */
+  danger: string;
+  onDanger: string;
+  /** Applied coupons and the "online now" dot. */
+  success: string;
+  /** WhatsApp buttons, in WhatsApp's own green whatever the brand. */
+  whatsapp: string;
+  whatsappLight: string;
+  onWhatsapp: string;
+  /** Drop shadows around photos and cards. */
+  shadow: string;
+}
+
+export interface ThemeRadii {
+  button: string;
+  cardSm: string;
+  cardMd: string;
+  cardLg: string;
+  cardXl: string;
+  card2xl: string;
+}
+
+export interface ThemeFonts {
+  /** CSS font-family lists. */
+  heading: string;
+  body: string;
+  /** Stylesheet that loads the fonts, e.g. from Google Fonts. */
+  stylesheet?: string;
+}
+
+export interface Theme {
+  colorScheme: 'dark' | 'light';
+  colors: ThemeColors;
+  radii: ThemeRadii;
+  fonts: ThemeFonts;
+  /** Replaces the content file's logo in the header and footer; same proportions. */
+  logoUrl?: string;
+}
+
+const RADII: ThemeRadii = {
+  button: '9999px',
+  cardSm: '1.5rem',
+  cardMd: '2rem',
+  cardLg: '2.5rem',
+  cardXl: '3rem',
+  card2xl: '4rem',
+};
+
+const FONTS: ThemeFonts = {
+  heading: "'Montserrat', sans-serif",
+  body: "'Poppins', sans-serif",
+  stylesheet: 'https://fonts.googleapis.com/css2?family=Montserrat:wght@400;700;900&family=Poppins:wght@300;400;600;700;800&display=swap',
+};
+
+export const THEMES = {
+  dark: {
+    colorScheme: 'dark',
+    colors: {
+      brand: '#ff7a00',
+      brandLight: '#ffa800',
+      onBrand: '#000000',
+      page: '#000000',
+      pageAlt: '#050505',
+      surface: '#0a0a0a',
+      surfaceRaised: '#111111',
+      fg: '#ffffff',
+      fgSoft: '#d1d5db',
+      fgMuted: '#9ca3af',
+      fgSubtle: '#6b7280',
+      fgFaint: '#4b5563',
+      heroGlow: '#1a1a1a',
+      ctaGlow: '#3a1a00',
+      danger: '#dc2626',
+      onDanger: '#ffffff',
+      success: '#22c55e',
+      whatsapp: '#16a34a',
+      whatsappLight: '#22c55e',
+      onWhatsapp: '#ffffff',
+      shadow: '#000000',
+    },
+    radii: RADII,
+    fonts: FONTS,
+  },
+  light: {
+    colorScheme: 'light',
+    colors: {
+      // Darker than the dark theme's orange, so highlighted text stays readable on white.
+      brand: '#e06600',
+      brandLight: '#ff8a1f',
+      onBrand: '#000000',
+      page: '#ffffff',
+      pageAlt: '#f7f7f7',
+      surface: '#f4f4f5',
+      surfaceRaised: '#fafafa',
+      fg: '#0a0a0a',
+      fgSoft: '#27272a',
+      fgMuted: '#52525b',
+      fgSubtle: '#71717a',
+      fgFaint: '#a1a1aa',
+      heroGlow: '#fff1e6',
+      ctaGlow: '#ffe0c2',
+      danger: '#dc2626',
+      onDanger: '#ffffff',
+      // Darker than the dark theme's green, to stay readable as text on white.
+      success: '#15803d',
+      whatsapp: '#16a34a',
+      whatsappLight: '#22c55e',
+      onWhatsapp: '#ffffff',
+      shadow: '#52525b',
+    },
+    radii: RADII,
+    fonts: FONTS,
+  },
+} satisfies Record<string, Theme>;
+
+export type ThemeName = keyof typeof THEMES;
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const isThemeName = (name: string): name is ThemeName => name in THEMES;
+
+/** The theme chosen for this build (`THEME`, "dark" by default). */
+export const BUILD_THEME: ThemeName = process.env.THEME && isThemeName(process.env.THEME) ? process.env.THEME : 'dark';
+
+/** The theme of a page: its landing's `theme`, if it has one, or the build's. */
+export const routeTheme = (content: CourseContent, route: Route): ThemeName => {
+  if (route.name !== 'landing') return BUILD_THEME;
+  return content.landings.find(landing => landing.id === route.landing)?.theme ?? BUILD_THEME;
+};
+
+/** Id of the `<style>` element holding the current theme's variables. */
+export const THEME_STYLE_ID = 'theme-tokens';
+
+const kebab = (name: string) => name.replace(/([a-z])([A-Z0-9])/g, '$1-$2').toLowerCase();
+
+/** "#ff7a00" as "255 122 0", so Tailwind can add an opacity (`bg-brand/20`). */
+const channels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+
+export const themeVariables = ({ colors, radii, fonts }: Theme): Record<string, string> => ({
+  ...Object.fromEntries(Object.entries(colors).map(([name, hex]) => [`--color-${kebab(name)}`, channels(hex)])),
+  ...Object.fromEntries(Object.entries(radii).map(([name, radius]) => [`--radius-${kebab(name)}`, radius])),
+  '--font-heading': fonts.heading,
+  '--font-body': fonts.body,
+});
+
+/** The theme as a stylesheet: its fonts and the variables on `:root`. */
+export const themeCss = (theme: Theme) => {
+  const variables = Object.entries(themeVariables(theme)).map(([name, value]) => `${name}:${value};`).join('');
+  const fonts = theme.fonts.stylesheet ? `@import url("${theme.fonts.stylesheet}");` : '';
+  return `${fonts}:root{color-scheme:${theme.colorScheme};${variables}}`;
+};
+
+/** The `<style>` element for the page's `<head>`. */
+export const themeStyleTag = (theme: Theme) => `<style id="${THEME_STYLE_ID}">${themeCss(theme)}</style>`;
+
+/** Switches the page to `theme`, after navigating to a route with another one. */
+export const applyTheme = (theme: Theme) => {
+  const style = document.getElementById(THEME_STYLE_ID);
+  const css = themeCss(theme);
+  if (style && style.textContent !== css) style.textContent = css;
+};
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ALL_DENIED, initConsent, saveConsent } from './consent';
+import { connectGa4, loadScript, loadScriptWithConsent } from './thirdPartyScripts';
+
+const scriptsFor = (src: string) => document.head.querySelectorAll(`script[src="${src}"]`);
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('loadScript', () => {
+  it('appends an async script once per src and resolves when it loads', async () => {
+    const src = 'https://cdn.example.com/once.js';
+    const first = loadScript(src);
+    const second = loadScript(src);
+    expect(second).toBe(first);
+    const [script] = scriptsFor(src) as NodeListOf<HTMLScriptElement>;
+    expect(scriptsFor(src)).toHaveLength(1);
+    expect(script.async).toBe(true);
+    script.dispatchEvent(new Event('load'));
+    await expect(first).resolves.toBeUndefined();
+  });
+
+  it('rejects when the script fails to load', async () => {
+    const src = 'https://cdn.example.com/blocked.js';
+    const loading = loadScript(src);
+    scriptsFor(src)[0].dispatchEvent(new Event('error'));
+    await expect(loading).rejects.toThrow(`Could not load ${src}`);
+  });
+});
+
+describe('loadScriptWithConsent', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    initConsent(1);
+  });
+
+  it('adds nothing until the visitor grants the category', async () => {
+    const src = 'https://cdn.example.com/analytics.js';
+    const loading = loadScriptWithConsent('analytics', src);
+    await settle();
+    expect(scriptsFor(src)).toHaveLength(0);
+
+    saveConsent({ ...ALL_DENIED, marketing: true });
+    await settle();
+    expect(scriptsFor(src)).toHaveLength(0);
+
+    saveConsent({ ...ALL_DENIED, analytics: true });
+    await settle();
+    expect(scriptsFor(src)).toHaveLength(1);
+    scriptsFor(src)[0].dispatchEvent(new Event('load'));
+    await expect(loading).resolves.toBeUndefined();
+  });
+
+  it('loads right away when the category is already granted', async () => {
+    saveConsent({ analytics: false, marketing: true });
+    const src = 'https://cdn.example.com/pixel.js';
+    loadScriptWithConsent('marketing', src);
+    await settle();
+    expect(scriptsFor(src)).toHaveLength(1);
+  });
+});
+
+describe('connectGa4', () => {
+  const src = 'https://www.googletagmanager.com/gtag/js?id=G-TEST123';
+
+  beforeEach(() => {
+    localStorage.clear();
+    initConsent(1);
+    delete window.gtag;
+    window.dataLayer = [];
+  });
+
+  const calls = () => window.dataLayer!.map(args => Array.from(args as ArrayLike<unknown>));
+
+  it('loads gtag.js with the measurement id only after analytics consent', async () => {
+    connectGa4('G-TEST123');
+    await settle();
+    expect(scriptsFor(src)).toHaveLength(0);
+    expect(window.gtag).toBeUndefined();
+
+    saveConsent({ ...ALL_DENIED, marketing: true });
+    await settle();
+    expect(scriptsFor(src)).toHaveLength(0);
+
+    saveConsent({ ...ALL_DENIED, analytics: true });
+    await settle();
+    expect(scriptsFor(src)).toHaveLength(1);
+    expect(calls()).toEqual([['js', expect.any(Date)], ['config', 'G-TEST123']]);
+  });
+
+  it('denies analytics storage when consent is withdrawn', async () => {
+    saveConsent({ ...ALL_DENIED, analytics: true });
+    connectGa4('G-TEST123');
+    await settle();
+
+    saveConsent(ALL_DENIED);
+    expect(calls().at(-1)).toEqual(['consent', 'update', { analytics_storage: 'denied' }]);
+  });
+});
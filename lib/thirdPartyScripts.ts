@@ -0,0 +1,109 @@
+import { ConsentCategory, hasConsent, subscribeConsent, whenConsented } from './consent';
+
+// --- Third-party scripts ---
+//
+// Trackers are injected at runtime instead of sitting in index.html, so
+// nothing loads (or sets cookies) before the visitor has consented.
+
+interface MetaPixelQueue {
+  (...args: unknown[]): void;
+  callMethod?: (...args: unknown[]) => void;
+  queue: unknown[][];
+  push: MetaPixelQueue;
+  loaded: boolean;
+  version: string;
+}
+
+declare global {
+  interface Window {
+    _fbq?: unknown;
+  }
+}
+
+const META_PIXEL_SRC = 'https://connect.facebook.net/en_US/fbevents.js';
+
+const GA4_SRC = 'https://www.googletagmanager.com/gtag/js';
+
+const scripts = new Map<string, Promise<void>>();
+
+/** Appends an async `<script>` once per `src`; resolves when it has loaded. */
+export const loadScript = (src: string): Promise<void> => {
+  let loading = scripts.get(src);
+  if (!loading) {
+    loading = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => reject(new Error(`Could not load ${src}`));
+      document.head.appendChild(script);
+    });
+    scripts.set(src, loading);
+  }
+  return loading;
+};
+
+/** Waits for the visitor to grant `category`, then loads `src`. */
+export const loadScriptWithConsent = async (category: ConsentCategory, src: string) => {
+  await whenConsented(category);
+  await loadScript(src);
+};
+
+// Meta's snippet: a queue that records calls until fbevents.js takes over.
+const installMetaPixelQueue = () => {
+  if (window.fbq) return;
+  const fbq = ((...args: unknown[]) => {
+    if (fbq.callMethod) fbq.callMethod(...args);
+    else fbq.queue.push(args);
+  }) as MetaPixelQueue;
+  fbq.push = fbq;
+  fbq.loaded = true;
+  fbq.version = '2.0';
+  fbq.queue = [];
+  window.fbq = fbq;
+  if (!window._fbq) window._fbq = fbq;
+};
+
+/**
+ * Starts the Meta Pixel (and its PageView) once marketing consent is given.
+ * Withdrawing consent later revokes it in the pixel as well.
+ */
+export const connectMetaPixel = (pixelId: string) => {
+  whenConsented('marketing').then(() => {
+    installMetaPixelQueue();
+    window.fbq?.('init', pixelId);
+    window.fbq?.('track', 'PageView');
+    loadScript(META_PIXEL_SRC).catch(() => {
+      // Blocked by the browser or an extension: the page works without it.
+    });
+    subscribeConsent(() => window.fbq?.('consent', hasConsent('marketing') ? 'grant' : 'revoke'));
+  });
+};
+
+// Google's snippet: gtag.js reads the calls from `dataLayer`, as `arguments`
+// objects rather than arrays.
+const installGtag = () => {
+  if (window.gtag) return;
+  window.dataLayer = window.dataLayer || [];
+  window.gtag = function gtag() {
+    window.dataLayer!.push(arguments);
+  };
+};
+
+/**
+ * Starts GA4 (and its page view) once analytics consent is given. Withdrawing
+ * consent later denies analytics storage in gtag as well.
+ */
+export const connectGa4 = (measurementId: string) => {
+  whenConsented('analytics').then(() => {
+    installGtag();
+    window.gtag?.('js', new Date());
+    window.gtag?.('config', measurementId);
+    loadScript(`${GA4_SRC}?id=${encodeURIComponent(measurementId)}`).catch(() => {
+      // Blocked by the browser or an extension: the page works without it.
+    });
+    subscribeConsent(() =>
+      window.gtag?.('consent', 'update', { analytics_storage: hasConsent('analytics') ? 'granted' : 'denied' })
+    );
+  });
+};
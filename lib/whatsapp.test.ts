@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { BusinessHours } from '../content/schema';
+import { hoursUntilOpen, isWithinBusinessHours, supportChatLink, whatsappLink } from './whatsapp';
+
+// São Paulo is UTC-3 all year (no daylight saving time since 2019).
+const schedule: BusinessHours = {
+  timezone: 'America/Sao_Paulo',
+  hours: [{ days: [1, 2, 3, 4, 5], open: '09:00', close: '18:00' }],
+};
+
+// 2026-10-19 is a Monday.
+const at = (iso: string) => new Date(iso);
+
+describe('isWithinBusinessHours', () => {
+  it('reads the clock in the schedule time zone', () => {
+    expect(isWithinBusinessHours(schedule, at('2026-10-19T12:00:00Z'))).toBe(true); // 09:00 in São Paulo
+    expect(isWithinBusinessHours(schedule, at('2026-10-19T11:59:00Z'))).toBe(false); // 08:59
+    expect(isWithinBusinessHours(schedule, at('2026-10-19T20:30:00Z'))).toBe(true); // 17:30, already past 18:00 in UTC
+  });
+
+  it('closes at the closing time', () => {
+    expect(isWithinBusinessHours(schedule, at('2026-10-19T20:59:00Z'))).toBe(true); // 17:59
+    expect(isWithinBusinessHours(schedule, at('2026-10-19T21:00:00Z'))).toBe(false); // 18:00
+  });
+
+  it('uses the weekday in the schedule time zone', () => {
+    expect(isWithinBusinessHours(schedule, at('2026-10-24T13:00:00Z'))).toBe(false); // Saturday 10:00
+    expect(isWithinBusinessHours(schedule, at('2026-10-25T13:00:00Z'))).toBe(false); // Sunday 10:00
+    // Monday 01:00 in UTC is still Sunday 22:00 in São Paulo.
+    expect(isWithinBusinessHours({ ...schedule, hours: [{ days: [0], open: '21:00', close: '23:00' }] }, at('2026-10-19T01:00:00Z'))).toBe(true);
+  });
+
+  it('accepts several ranges', () => {
+    const split: BusinessHours = {
+      timezone: 'America/Sao_Paulo',
+      hours: [
+        { days: [1, 2, 3, 4, 5], open: '09:00', close: '12:00' },
+        { days: [6], open: '10:00', close: '14:00' },
+      ],
+    };
+    expect(isWithinBusinessHours(split, at('2026-10-19T16:00:00Z'))).toBe(false); // Monday 13:00
+    expect(isWithinBusinessHours(split, at('2026-10-24T14:00:00Z'))).toBe(true); // Saturday 11:00
+  });
+});
+
+describe('hoursUntilOpen', () => {
+  it('rounds up to whole hours, at least 1', () => {
+    expect(hoursUntilOpen(schedule, at('2026-10-19T11:59:00Z'))).toBe(1); // 08:59, one minute left
+    expect(hoursUntilOpen(schedule, at('2026-10-19T09:30:00Z'))).toBe(3); // 06:30
+  });
+
+  it('counts overnight from the closing time', () => {
+    expect(hoursUntilOpen(schedule, at('2026-10-19T21:00:00Z'))).toBe(15); // Monday 18:00 → Tuesday 09:00
+  });
+
+  it('counts over the weekend', () => {
+    expect(hoursUntilOpen(schedule, at('2026-10-23T21:00:00Z'))).toBe(63); // Friday 18:00 → Monday 09:00
+    expect(hoursUntilOpen(schedule, at('2026-10-24T12:00:00Z'))).toBe(48); // Saturday 09:00 → Monday 09:00
+  });
+
+  it('is null for a schedule that never opens', () => {
+    expect(hoursUntilOpen({ timezone: 'America/Sao_Paulo', hours: [{ days: [], open: '09:00', close: '18:00' }] }, at('2026-10-19T12:00:00Z'))).toBeNull();
+  });
+});
+
+describe('supportChatLink', () => {
+  it('builds a wa.me link with the section in the message', () => {
+    expect(supportChatLink('5511987654321', 'Olá! Vim da seção "{section}".', 'Dúvidas Frequentes')).toBe(
+      `https://wa.me/5511987654321?text=${encodeURIComponent('Olá! Vim da seção "Dúvidas Frequentes".')}`
+    );
+  });
+
+  it('keeps only the digits of the number', () => {
+    expect(whatsappLink('+55 (11) 98765-4321', 'Oi')).toBe('https://wa.me/5511987654321?text=Oi');
+  });
+});
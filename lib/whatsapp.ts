@@ -0,0 +1,48 @@
+import type { BusinessHours } from '../content/schema';
+
+// --- WhatsApp Support ---
+
+/** Builds a wa.me deep link that opens a chat with `message` already typed. */
+export const whatsappLink = (number: string, message: string) =>
+  `https://wa.me/${number.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** Day of week (0 = Sunday) and minutes since midnight of `date` on the wall clock of `timeZone`. */
+const wallClock = (date: Date, timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return { day: WEEKDAYS.indexOf(parts.weekday), minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+};
+
+export const isWithinBusinessHours = ({ timezone, hours }: BusinessHours, now = new Date()) => {
+  const { day, minutes } = wallClock(now, timezone);
+  return hours.some(range => range.days.includes(day) && minutes >= toMinutes(range.open) && minutes < toMinutes(range.close));
+};
+
+const STEP_MS = 15 * 60_000;
+const HORIZON_MS = 8 * 24 * 60 * 60_000;
+
+/** Whole hours until support opens again (at least 1), or null if it never opens. */
+export const hoursUntilOpen = (schedule: BusinessHours, now = new Date()): number | null => {
+  for (let offset = 0; offset <= HORIZON_MS; offset += STEP_MS) {
+    if (isWithinBusinessHours(schedule, new Date(now.getTime() + offset))) {
+      return Math.max(1, Math.ceil(offset / 3_600_000));
+    }
+  }
+  return null;
+};
+
+/** The chat link for a support entry point; `section` fills the message's `{section}` placeholder. */
+export const supportChatLink = (number: string, message: string, section: string) =>
+  whatsappLink(number, message.replace('{section}', section));
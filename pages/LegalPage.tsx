@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import type { CourseContent } from '../content/schema';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { useI18n } from '../i18n/I18nProvider';
+import { routeHeadTags } from '../lib/seo';
+
+interface LegalPageProps {
+  course: CourseContent;
+  document: 'terms' | 'privacy';
+}
+
+// Termos de Uso (`/termos`) and Política de Privacidade (`/privacidade`).
+const LegalPage = ({ course, document }: LegalPageProps) => {
+  const { t, locale, info } = useI18n();
+  const { legal } = course;
+  const legalDocument = legal[document];
+  const headTags = useMemo(
+    () => routeHeadTags(course, { name: document }, { locale, siteUrl: process.env.SITE_URL }),
+    [course, document, locale]
+  );
+  useDocumentHead(headTags);
+  const updatedAt = new Intl.DateTimeFormat(info.intl, { dateStyle: 'long', timeZone: 'UTC' }).format(new Date(legal.updatedAt));
+
+  return (
+    <article className="max-w-3xl mx-auto px-6 py-16 md:py-24">
+      <h1 className="text-4xl md:text-6xl font-black uppercase tracking-tight text-fg leading-tight mb-4">
+        {legalDocument.title}
+      </h1>
+      <p className="text-fg-subtle text-sm mb-12">{t('legal.updatedAt', { date: updatedAt })}</p>
+      {legalDocument.sections.map((section, i) => (
+        <section key={i} className="mb-10">
+          <h2 className="text-xl md:text-2xl font-bold text-fg uppercase tracking-tight mb-4">{section.heading}</h2>
+          {section.paragraphs.map((paragraph, j) => (
+            <p key={j} className="text-fg-muted leading-relaxed mb-4">{paragraph}</p>
+          ))}
+        </section>
+      ))}
+    </article>
+  );
+};
+
+export default LegalPage;
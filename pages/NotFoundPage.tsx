@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import type { CourseContent } from '../content/schema';
+import { Link } from '../components/Router';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { useI18n } from '../i18n/I18nProvider';
+import { routeHeadTags } from '../lib/seo';
+
+interface NotFoundPageProps {
+  course: CourseContent;
+}
+
+const NotFoundPage = ({ course }: NotFoundPageProps) => {
+  const { t, locale } = useI18n();
+  const headTags = useMemo(
+    () => routeHeadTags(course, { name: 'not-found' }, { locale, siteUrl: process.env.SITE_URL }),
+    [course, locale]
+  );
+  useDocumentHead(headTags);
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-24 md:py-40 text-center">
+      <h1 className="text-4xl md:text-6xl font-black uppercase tracking-tight text-fg leading-tight mb-6">{t('notFound.title')}</h1>
+      <p className="text-fg-muted text-lg mb-12">{t('notFound.text')}</p>
+      <Link to="/" className="text-brand font-black uppercase tracking-widest text-sm underline underline-offset-4">
+        {t('notFound.back')}
+      </Link>
+    </div>
+  );
+};
+
+export default NotFoundPage;
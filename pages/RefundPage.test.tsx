@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { contentByLocale } from 'virtual:course-content';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RouterProvider } from '../components/Router';
+import { I18nProvider } from '../i18n/I18nProvider';
+import { track } from '../lib/analytics';
+import { RefundAdapter, RefundRequest, RefundSubmissionError, toDateInput } from '../lib/refunds';
+import RefundPage from './RefundPage';
+
+vi.mock('../lib/analytics', () => ({ track: vi.fn() }));
+
+const course = contentByLocale['pt-BR'];
+
+const fakeAdapter = (submit: RefundAdapter['submit']) => ({ submit: vi.fn(submit) });
+
+const renderPage = (adapter: RefundAdapter) =>
+  render(
+    <I18nProvider initialLocale="pt-BR">
+      <RouterProvider initialPath="/reembolso">
+        <RefundPage course={course} adapter={adapter} />
+      </RouterProvider>
+    </I18nProvider>
+  );
+
+const fill = (label: string, value: string) => fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+const fillForm = (purchaseDate = toDateInput(new Date())) => {
+  fill('Número do pedido', ' PED-48213 ');
+  fill('E-mail da compra', 'Maria@Example.com');
+  fill('Data da compra', purchaseDate);
+};
+
+const submit = () => fireEvent.click(screen.getByRole('button', { name: 'SOLICITAR REEMBOLSO' }));
+
+describe('RefundPage', () => {
+  beforeEach(() => localStorage.setItem('locale', 'pt-BR'));
+  afterEach(() => {
+    cleanup();
+    vi.mocked(track).mockClear();
+  });
+
+  it('sends the request and shows the protocol and status', async () => {
+    const adapter = fakeAdapter(async () => ({ protocol: 'RB-20261019-48213', status: 'in-review' }));
+    renderPage(adapter);
+    fillForm();
+    submit();
+
+    const receipt = await screen.findByRole('status');
+    expect(receipt.textContent).toContain('RB-20261019-48213');
+    expect(receipt.textContent).toContain('Em análise');
+    expect(receipt.textContent).toContain('maria@example.com');
+
+    const sent: RefundRequest = adapter.submit.mock.calls[0][0];
+    expect(sent).toMatchObject({ orderId: 'PED-48213', email: 'maria@example.com', locale: 'pt-BR' });
+    expect(track).toHaveBeenCalledWith('refund_request');
+  });
+
+  it('does not send a request outside the guarantee window', () => {
+    const adapter = fakeAdapter(async () => ({ protocol: 'RB-1', status: 'received' }));
+    renderPage(adapter);
+    fillForm('2020-01-01');
+    submit();
+
+    expect(screen.getByText(/O prazo de 7 dias da garantia terminou/)).toBeTruthy();
+    expect(screen.getByLabelText('Data da compra').getAttribute('aria-invalid')).toBe('true');
+    expect(adapter.submit).not.toHaveBeenCalled();
+  });
+
+  it('keeps the form to retry when the backend fails', async () => {
+    const adapter = fakeAdapter(async () => {
+      throw new RefundSubmissionError('O servidor respondeu 503.', 503);
+    });
+    renderPage(adapter);
+    fillForm();
+    submit();
+
+    expect((await screen.findByRole('alert')).textContent).toContain('Não foi possível enviar sua solicitação');
+    await waitFor(() => expect(screen.getByRole('button', { name: 'TENTAR NOVAMENTE' })).toBeTruthy());
+    expect(screen.getByLabelText('Número do pedido')).toBeTruthy();
+    expect(track).not.toHaveBeenCalled();
+  });
+});
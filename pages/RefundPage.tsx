@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Loader2 } from 'lucide-react';
+import type { CourseContent } from '../content/schema';
+import { Link } from '../components/Router';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages';
+import { track } from '../lib/analytics';
+import {
+  createRefundAdapter,
+  MAX_REASON_LENGTH,
+  normalizeRefund,
+  RefundAdapter,
+  RefundErrors,
+  RefundReceipt,
+  RefundRequestInput,
+  refundDeadline,
+  toDateInput,
+  validateRefund,
+} from '../lib/refunds';
+import { PAGE_PATHS } from '../lib/routes';
+import { routeHeadTags } from '../lib/seo';
+
+interface RefundPageProps {
+  course: CourseContent;
+  /** Where requests go; the build's `REFUND_WEBHOOK_URL` adapter by default. */
+  adapter?: RefundAdapter;
+}
+
+type Status = 'idle' | 'submitting' | 'error' | 'success';
+
+const EMPTY_REQUEST: RefundRequestInput = { orderId: '', email: '', purchaseDate: '', reason: '' };
+
+const inputStyles = "w-full bg-fg/5 border rounded-card-sm px-6 py-4 text-fg text-lg placeholder:text-fg-faint focus:outline-none focus:border-brand transition-colors";
+
+// Reembolso (`/reembolso`): the request form behind the guarantee, then the
+// protocol number and status the backend answers with.
+const RefundPage = ({ course, adapter: customAdapter }: RefundPageProps) => {
+  const { t, locale, info } = useI18n();
+  const adapter = useMemo(() => customAdapter ?? createRefundAdapter(), [customAdapter]);
+  const [values, setValues] = useState<RefundRequestInput>(EMPTY_REQUEST);
+  const [errors, setErrors] = useState<RefundErrors>({});
+  const [status, setStatus] = useState<Status>('idle');
+  const [receipt, setReceipt] = useState<RefundReceipt | null>(null);
+  // The visitor's date, read after mount: the prerendered page was built on another day.
+  const [today, setToday] = useState<string>();
+  const { refundWindowDays } = course.guarantee;
+  const headTags = useMemo(
+    () => routeHeadTags(course, { name: 'refund' }, { locale, siteUrl: process.env.SITE_URL }),
+    [course, locale]
+  );
+  useDocumentHead(headTags);
+
+  useEffect(() => {
+    setToday(toDateInput(new Date()));
+  }, []);
+
+  const formatDate = (date: string) =>
+    new Intl.DateTimeFormat(info.intl, { dateStyle: 'long', timeZone: 'UTC' }).format(new Date(`${date}T00:00:00Z`));
+
+  const deadline = /^\d{4}-\d{2}-\d{2}$/.test(values.purchaseDate) ? refundDeadline(values.purchaseDate, refundWindowDays) : null;
+  const messageValues = { days: refundWindowDays, date: deadline ? formatDate(deadline) : '', max: MAX_REASON_LENGTH };
+
+  const update = (field: keyof RefundRequestInput) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { value } = e.target;
+    setValues(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const submit = async () => {
+    if (!adapter) return;
+    const found = validateRefund(values, refundWindowDays, today);
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+
+    setStatus('submitting');
+    try {
+      setReceipt(await adapter.submit(normalizeRefund(values, locale)));
+      setStatus('success');
+      track('refund_request');
+    } catch {
+      setStatus('error');
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (status !== 'submitting') submit();
+  };
+
+  const fieldLabel = (name: keyof RefundRequestInput, label: MessageKey) => (
+    <label htmlFor={`refund-${name}`} className="block text-xs font-bold uppercase tracking-widest text-fg-subtle mb-2">{t(label)}</label>
+  );
+
+  const fieldProps = (name: keyof RefundRequestInput) => ({
+    id: `refund-${name}`,
+    name,
+    value: values[name],
+    onChange: update(name),
+    'aria-invalid': Boolean(errors[name]),
+    'aria-describedby': errors[name] ? `refund-${name}-error` : undefined,
+    className: `${inputStyles} ${errors[name] ? 'border-danger' : 'border-fg/10'}`,
+  });
+
+  const fieldError = (name: keyof RefundRequestInput) =>
+    errors[name] && <p id={`refund-${name}-error`} className="text-danger text-sm mt-2">{t(errors[name]!, messageValues)}</p>;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-16 md:py-24">
+      <div className="text-center mb-12">
+        <h1 className="text-4xl md:text-6xl font-black uppercase tracking-tight text-fg leading-tight mb-4">{t('refund.title')}</h1>
+        <p className="text-fg-muted text-lg md:text-xl">{t('refund.subtitle', { days: refundWindowDays })}</p>
+      </div>
+
+      <div className="bg-surface rounded-card-xl p-8 md:p-14 border border-fg/5">
+        {!adapter ? (
+          <p className="text-center text-fg-soft text-lg">
+            {t('refund.unavailable')}{' '}
+            <Link to={PAGE_PATHS.support} className="text-brand font-bold underline underline-offset-4">{t('refund.support')}</Link>
+          </p>
+        ) : status === 'success' && receipt ? (
+          <div className="text-center py-4" role="status">
+            <CheckCircle className="w-16 h-16 text-brand mx-auto mb-6" />
+            <h2 className="text-2xl md:text-3xl font-black uppercase text-fg mb-8">{t('refund.successTitle')}</h2>
+            <dl className="grid grid-cols-2 gap-4 mb-8 text-left">
+              <div className="bg-fg/5 rounded-card-sm p-5">
+                <dt className="text-xs font-bold uppercase tracking-widest text-fg-subtle mb-1">{t('refund.protocol')}</dt>
+                <dd className="text-fg text-lg font-black break-all">{receipt.protocol}</dd>
+              </div>
+              <div className="bg-fg/5 rounded-card-sm p-5">
+                <dt className="text-xs font-bold uppercase tracking-widest text-fg-subtle mb-1">{t('refund.statusLabel')}</dt>
+                <dd className="text-brand text-lg font-black">{t(`refund.status.${receipt.status}` as MessageKey)}</dd>
+              </div>
+            </dl>
+            <p className="text-fg-muted text-lg">{t('refund.successText', { email: values.email.trim().toLowerCase() })}</p>
+          </div>
+        ) : (
+          <form onSubmit={onSubmit} noValidate className="space-y-6 text-left">
+            <div>
+              {fieldLabel('orderId', 'refund.orderId')}
+              <input type="text" autoComplete="off" placeholder={t('refund.orderIdPlaceholder')} {...fieldProps('orderId')} />
+              {fieldError('orderId')}
+            </div>
+            <div>
+              {fieldLabel('email', 'refund.email')}
+              <input type="email" autoComplete="email" placeholder={t('lead.emailPlaceholder')} {...fieldProps('email')} />
+              {fieldError('email')}
+            </div>
+            <div>
+              {fieldLabel('purchaseDate', 'refund.purchaseDate')}
+              <input type="date" max={today} {...fieldProps('purchaseDate')} />
+              {fieldError('purchaseDate')}
+              {!errors.purchaseDate && deadline && (
+                <p className="text-fg-subtle text-sm mt-2">{t('refund.deadline', messageValues)}</p>
+              )}
+            </div>
+            <div>
+              {fieldLabel('reason', 'refund.reason')}
+              <textarea rows={4} maxLength={MAX_REASON_LENGTH} placeholder={t('refund.reasonPlaceholder')} {...fieldProps('reason')} />
+              {fieldError('reason')}
+            </div>
+
+            {status === 'error' && (
+              <p className="text-danger text-center font-bold" role="alert">
+                {t('refund.submitError')}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={status === 'submitting'}
+              className="btn-shine w-full inline-flex items-center justify-center gap-3 px-10 py-5 rounded-button font-black text-lg transition-all duration-300 bg-brand text-on-brand hover:bg-brand-light disabled:opacity-60 disabled:cursor-wait uppercase tracking-tighter"
+            >
+              {status === 'submitting' && <Loader2 className="w-5 h-5 animate-spin" />}
+              {status === 'error' ? t('refund.retry') : t('refund.submit')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RefundPage;
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import type { CourseContent } from '../content/schema';
+import FAQAccordion from '../components/FAQAccordion';
+import { WhatsAppSupportCta } from '../components/WhatsAppSupport';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { useI18n } from '../i18n/I18nProvider';
+import { routeHeadTags } from '../lib/seo';
+
+interface SupportPageProps {
+  course: CourseContent;
+}
+
+// Suporte ao Aluno (`/suporte`): the FAQ, then the WhatsApp contact.
+const SupportPage = ({ course }: SupportPageProps) => {
+  const { t, locale } = useI18n();
+  const { faq } = course;
+  const { whatsapp } = course.support;
+  const headTags = useMemo(
+    () => routeHeadTags(course, { name: 'support' }, { locale, siteUrl: process.env.SITE_URL }),
+    [course, locale]
+  );
+  useDocumentHead(headTags);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-16 md:py-24">
+      <div className="text-center mb-16">
+        <h1 className="text-4xl md:text-6xl font-black uppercase tracking-tight text-fg leading-tight mb-4">{t('support.title')}</h1>
+        <p className="text-fg-muted text-lg md:text-xl">{t('support.subtitle')}</p>
+      </div>
+
+      <div className="bg-surface rounded-card-xl p-6 md:p-14 border border-fg/5">
+        <FAQAccordion faq={faq} />
+      </div>
+
+      {whatsapp.enabled && whatsapp.number && <WhatsAppSupportCta content={whatsapp} number={whatsapp.number} section={t('support.title')} />}
+    </div>
+  );
+};
+
+export default SupportPage;
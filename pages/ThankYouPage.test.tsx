@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, render } from '@testing-library/react';
+import { contentByLocale } from 'virtual:course-content';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RouterProvider } from '../components/Router';
+import { I18nProvider } from '../i18n/I18nProvider';
+import { track } from '../lib/analytics';
+import { ALL_DENIED, initConsent, saveConsent } from '../lib/consent';
+import ThankYouPage from './ThankYouPage';
+
+vi.mock('../lib/analytics', () => ({ track: vi.fn() }));
+
+const course = contentByLocale['pt-BR'];
+const [plan] = course.pricing.plans;
+
+const renderPage = (search: string) => {
+  window.history.replaceState(null, '', `/obrigado${search}`);
+  return render(
+    <I18nProvider initialLocale="pt-BR">
+      <RouterProvider initialPath="/obrigado">
+        <ThankYouPage course={course} />
+      </RouterProvider>
+    </I18nProvider>
+  );
+};
+
+describe('ThankYouPage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    localStorage.setItem('locale', 'pt-BR');
+    initConsent(1);
+    saveConsent(ALL_DENIED);
+  });
+  afterEach(() => {
+    cleanup();
+    vi.mocked(track).mockClear();
+  });
+
+  it('reports the purchase with the amount checkout passed back, once per session', () => {
+    renderPage(`?plano=${plan.id}&pedido=PED-48213&valor=33,30`);
+    expect(track).toHaveBeenCalledWith('purchase', { plan: plan.id, transaction_id: 'PED-48213', value: 33.3, currency: 'BRL' });
+
+    cleanup();
+    renderPage(`?plano=${plan.id}&pedido=PED-48213&valor=33,30`);
+    expect(track).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports nothing on a visit that names no plan or order', () => {
+    renderPage('');
+    renderPage('?plano=nao-existe');
+    expect(track).not.toHaveBeenCalled();
+  });
+
+  it('waits for the cookie choice', () => {
+    localStorage.removeItem('consent');
+    initConsent(1);
+    renderPage(`?plano=${plan.id}`);
+    expect(track).not.toHaveBeenCalled();
+
+    act(() => saveConsent(ALL_DENIED));
+    expect(track).toHaveBeenCalledWith('purchase', { plan: plan.id });
+  });
+});
@@ -0,0 +1,61 @@
+import React, { useEffect, useMemo } from 'react';
+import { CheckCircle } from 'lucide-react';
+import type { CourseContent } from '../content/schema';
+import { Link } from '../components/Router';
+import { useConsent } from '../hooks/useConsent';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { useI18n } from '../i18n/I18nProvider';
+import { track } from '../lib/analytics';
+import { claimPurchaseEvent, purchaseFromSearch, purchaseParams } from '../lib/checkout';
+import { PAGE_PATHS } from '../lib/routes';
+import { routeHeadTags } from '../lib/seo';
+
+interface ThankYouPageProps {
+  course: CourseContent;
+}
+
+// Obrigado (`/obrigado`), where checkout sends buyers after paying.
+const ThankYouPage = ({ course }: ThankYouPageProps) => {
+  const { t, locale } = useI18n();
+  const consent = useConsent();
+  const { thankYou } = course;
+  const headTags = useMemo(
+    () => routeHeadTags(course, { name: 'thanks' }, { locale, siteUrl: process.env.SITE_URL }),
+    [course, locale]
+  );
+  useDocumentHead(headTags);
+
+  // Wait for the cookie choice: trackers only receive events it allows, and a
+  // purchase reported before it would never reach them.
+  useEffect(() => {
+    if (!consent) return;
+    const purchase = purchaseFromSearch(course.pricing.plans, window.location.search);
+    if (purchase && claimPurchaseEvent()) track('purchase', purchaseParams(purchase));
+  }, [consent, course]);
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-16 md:py-24 text-center">
+      <CheckCircle className="w-20 h-20 text-brand mx-auto mb-10" aria-hidden="true" />
+      <h1 className="text-4xl md:text-6xl font-black uppercase tracking-tight text-fg leading-tight mb-6">{thankYou.title}</h1>
+      <p className="text-fg-soft text-lg md:text-xl leading-relaxed mb-14">{thankYou.text}</p>
+
+      <ol className="text-left space-y-6 mb-14">
+        {thankYou.steps.map((step, i) => (
+          <li key={i} className="flex gap-5 p-6 bg-fg/5 rounded-card-sm border border-fg/5">
+            <span className="shrink-0 w-8 h-8 rounded-full bg-brand text-on-brand font-black flex items-center justify-center" aria-hidden="true">
+              {i + 1}
+            </span>
+            <p className="text-fg-soft leading-relaxed">{step}</p>
+          </li>
+        ))}
+      </ol>
+
+      <p className="text-fg-subtle">
+        {t('thankYou.supportLead')}{' '}
+        <Link to={PAGE_PATHS.support} className="text-brand font-bold underline underline-offset-4">{t('thankYou.supportLink')}</Link>
+      </p>
+    </div>
+  );
+};
+
+export default ThankYouPage;
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { ContentValidationError, validateCourseContent } from '../content/schema';
+
+const VIRTUAL_ID = 'virtual:course-content';
+const RESOLVED_ID = '\0' + VIRTUAL_ID;
+
+interface CourseContentOptions {
+  locales: readonly string[];
+  defaultLocale: string;
+}
+
+/** `content/course.json` for the default locale, `content/course.es.json` for "es", etc. */
+const localeFile = (file: string, locale: string, defaultLocale: string) =>
+  locale === defaultLocale ? file : file.replace(/\.json$/, `.${locale}.json`);
+
+/**
+ * Serves the course content files as `virtual:course-content`, validating
+ * them against the schema first so a broken file fails `vite build` (and
+ * shows the error overlay in dev) with the offending field paths. Every
+ * locale needs its own complete content file.
+ */
+export default function courseContent(file: string, { locales, defaultLocale }: CourseContentOptions): Plugin {
+  return {
+    name: 'course-content',
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return;
+
+      const byLocale: Record<string, unknown> = {};
+      for (const locale of locales) {
+        const localePath = localeFile(file, locale, defaultLocale);
+        const relative = path.relative(process.cwd(), localePath);
+        this.addWatchFile(localePath);
+
+        let data: unknown;
+        try {
+          data = JSON.parse(fs.readFileSync(localePath, 'utf-8'));
+        } catch (err) {
+          this.error(`Could not read course content for locale "${locale}" (${relative}): ${(err as Error).message}`);
+        }
+
+        const issues = validateCourseContent(data);
+        if (issues.length > 0) {
+          this.error(new ContentValidationError(issues, relative).message);
+        }
+        byLocale[locale] = data;
+      }
+
+      // The offer deadline and experiment assignments are keyed by id, so
+      // every locale has to describe the same course.
+      const ids = new Set(Object.values(byLocale).map(data => (data as { id: string }).id));
+      if (ids.size > 1) {
+        this.error(`Course content files must share the same "id" across locales, got: ${[...ids].join(', ')}`);
+      }
+
+      // Cookie consent is stored per legal version, so switching languages
+      // must not look like a policy change.
+      const versions = new Set(Object.values(byLocale).map(data => (data as { legal: { version: number } }).legal.version));
+      if (versions.size > 1) {
+        this.error(`Course content files must share the same "legal.version" across locales, got: ${[...versions].join(', ')}`);
+      }
+
+      // Every landing is prerendered in every locale.
+      const landingSets = new Set(Object.values(byLocale).map(data =>
+        (data as { landings: { id: string }[] }).landings.map(landing => landing.id).sort().join(', ')
+      ));
+      if (landingSets.size > 1) {
+        this.error(`Course content files must define the same landings across locales, got: ${[...landingSets].map(ids => `[${ids}]`).join(' vs ')}`);
+      }
+
+      return [
+        `export const contentByLocale = ${JSON.stringify(byLocale)};`,
+        `export default contentByLocale[${JSON.stringify(defaultLocale)}];`,
+      ].join('\n');
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { checkCatalogs } from '../i18n/check';
+
+/**
+ * Fails the build when a message catalog in `dir` is missing keys (or has
+ * extra ones) compared to the source locale's catalog.
+ */
+export default function i18nMessages(dir: string, locales: readonly string[], sourceLocale: string): Plugin {
+  return {
+    name: 'i18n-messages',
+    buildStart() {
+      const catalogs: Record<string, Record<string, unknown>> = {};
+      for (const locale of locales) {
+        const file = path.join(dir, `${locale}.json`);
+        this.addWatchFile(file);
+        try {
+          catalogs[locale] = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        } catch (err) {
+          this.error(`Could not read message catalog ${path.relative(process.cwd(), file)}: ${(err as Error).message}`);
+        }
+      }
+
+      const issues = checkCatalogs(sourceLocale, catalogs);
+      if (issues.length > 0) {
+        this.error(
+          'Invalid message catalogs:\n' +
+          issues.map(issue => `  - ${issue.locale}: "${issue.key}" ${issue.message}`).join('\n')
+        );
+      }
+    },
+  };
+}
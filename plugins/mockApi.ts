@@ -0,0 +1,91 @@
+import fs from 'fs';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+
+export const MOCK_API_BASE = '/__mock';
+
+type Handler = (body: unknown) => { status: number; body: unknown };
+
+interface MockApiOptions {
+  /** Sample purchases, with `minutesAgo` instead of a date so they never go stale. */
+  recentPurchasesFile: string;
+}
+
+const readJson = (req: IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// Include "+fail" in the e-mail to get a 500 and exercise the error and retry states.
+const wantsFailure = (body: unknown) =>
+  typeof (body as { email?: unknown })?.email === 'string' && (body as { email: string }).email.includes('+fail');
+
+// Keyed by "METHOD /path".
+const createRoutes = ({ recentPurchasesFile }: MockApiOptions): Record<string, Handler> => ({
+  'POST /leads': body => {
+    if (wantsFailure(body)) return { status: 500, body: { error: 'simulated failure' } };
+    console.info('[mock-api] lead', body);
+    return { status: 201, body: { ok: true } };
+  },
+  'POST /refunds': body => {
+    if (wantsFailure(body)) return { status: 500, body: { error: 'simulated failure' } };
+    console.info('[mock-api] refund', body);
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const protocol = `RB-${date}-${String(Math.floor(Math.random() * 100_000)).padStart(5, '0')}`;
+    return { status: 201, body: { protocol, status: 'received' } };
+  },
+  'GET /recent-purchases': () => {
+    const samples = JSON.parse(fs.readFileSync(recentPurchasesFile, 'utf-8')) as { name: string; city: string; minutesAgo: number }[];
+    const now = Date.now();
+    return {
+      status: 200,
+      body: samples.map(({ minutesAgo, ...purchase }) => ({ ...purchase, purchasedAt: new Date(now - minutesAgo * 60_000).toISOString() })),
+    };
+  },
+});
+
+/**
+ * Local stand-in for the backends while developing: `vite` and `vite preview`
+ * answer requests to `/__mock/*` the way the real webhooks and feeds would.
+ */
+export default function mockApi(options: MockApiOptions): Plugin {
+  const routes = createRoutes(options);
+  const middleware: Connect.NextHandleFunction = (req, res, next) => {
+    const route = req.url?.startsWith(MOCK_API_BASE)
+      ? routes[`${req.method} ${req.url.slice(MOCK_API_BASE.length).split('?')[0]}`]
+      : undefined;
+    if (!route) return next();
+
+    (req.method === 'POST' ? readJson(req) : Promise.resolve({}))
+      .then(body => {
+        const result = route(body);
+        send(res, result.status, result.body);
+      })
+      .catch(() => send(res, 400, { error: 'invalid JSON' }));
+  };
+
+  return {
+    name: 'mock-api',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+}
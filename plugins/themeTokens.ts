@@ -0,0 +1,22 @@
+import type { Plugin } from 'vite';
+import { isThemeName, THEME_NAMES, THEME_STYLE_ID, themeCss, THEMES } from '../lib/theme';
+
+/**
+ * Adds the build theme's CSS variables to `index.html` as
+ * `<style id="theme-tokens">`, so the page has its colors and fonts before
+ * any JavaScript runs. Prerendering swaps in the theme of each route; the app
+ * updates the same element on client-side navigation. Fails the build on an
+ * unknown theme name.
+ */
+export default function themeTokens(name: string): Plugin {
+  return {
+    name: 'theme-tokens',
+    buildStart() {
+      if (!isThemeName(name)) this.error(`Unknown THEME "${name}"; expected one of ${THEME_NAMES.join(', ')}`);
+    },
+    transformIndexHtml() {
+      if (!isThemeName(name)) return [];
+      return [{ tag: 'style', attrs: { id: THEME_STYLE_ID }, children: themeCss(THEMES[name]), injectTo: 'head' }];
+    },
+  };
+}
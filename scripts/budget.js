@@ -0,0 +1,131 @@
+// Checks the built site against the resource budgets in `budget.json`, which
+// uses Lighthouse's budget format (so the same file works with
+// `lighthouse --budget-path=budget.json`). Serves `dist` with `vite preview`,
+// loads every prerendered page and adds up the gzipped size of its HTML and of
+// the first-party scripts and stylesheets it references. Third-party requests
+// (the Tailwind CDN, fonts, remote images) are counted but not weighed.
+// Images without width and height, which shift the layout as they load, are
+// reported too. Run `npm run build` first.
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const dist = path.join(root, 'dist');
+const PORT = 4180;
+const origin = `http://localhost:${PORT}`;
+const STARTUP_TIMEOUT_MS = 15_000;
+
+if (!fs.existsSync(path.join(dist, 'index.html'))) {
+  throw new Error('dist/index.html not found; run `npm run build` first');
+}
+
+const budgets = JSON.parse(fs.readFileSync(path.join(root, 'budget.json'), 'utf-8'));
+
+/** URL paths of the prerendered pages, e.g. "/" and "/es/termos/". */
+const pagePaths = (dir, prefix = '/') =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    if (entry.isDirectory()) return pagePaths(path.join(dir, entry.name), `${prefix}${entry.name}/`);
+    return entry.name === 'index.html' ? [prefix] : [];
+  });
+
+const budgetFor = pagePath =>
+  budgets.find(budget => new RegExp(`^${budget.path.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`).test(pagePath));
+
+const attributes = tag => Object.fromEntries([...tag.matchAll(/([\w-]+)(?:="([^"]*)")?/g)].slice(1).map(([, name, value]) => [name, value ?? '']));
+
+const tagsOf = (html, name) => [...html.matchAll(new RegExp(`<${name}\\b[^>]*>`, 'g'))].map(([tag]) => attributes(tag));
+
+/** The resources a page's HTML loads, by Lighthouse resource type. */
+const resourcesOf = html => {
+  const links = tagsOf(html, 'link');
+  return {
+    script: [
+      ...tagsOf(html, 'script').filter(script => script.src).map(script => script.src),
+      ...links.filter(link => link.rel === 'modulepreload').map(link => link.href),
+    ],
+    stylesheet: links.filter(link => link.rel === 'stylesheet').map(link => link.href),
+    image: tagsOf(html, 'img').map(img => img.src),
+  };
+};
+
+const gzippedKb = buffer => zlib.gzipSync(buffer).length / 1024;
+
+const fetchBuffer = async url => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return Buffer.from(await response.arrayBuffer());
+};
+
+const measurePage = async pagePath => {
+  const pageUrl = new URL(pagePath, origin);
+  const html = await fetchBuffer(pageUrl);
+  const sizes = { document: gzippedKb(html), script: 0, stylesheet: 0 };
+  const counts = { script: 0, 'third-party': 0 };
+  const resources = resourcesOf(html.toString('utf-8'));
+
+  for (const [type, urls] of Object.entries(resources)) {
+    for (const src of urls) {
+      const url = new URL(src, pageUrl);
+      if (type === 'script') counts.script += 1;
+      if (url.origin !== origin) counts['third-party'] += 1;
+      else if (type in sizes) sizes[type] += gzippedKb(await fetchBuffer(url));
+    }
+  }
+  sizes.total = sizes.document + sizes.script + sizes.stylesheet;
+
+  const unsizedImages = new Set(tagsOf(html.toString('utf-8'), 'img').filter(img => !img.width || !img.height).map(img => img.src));
+  return { sizes, counts, unsizedImages };
+};
+
+const waitForServer = async () => {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      await fetch(origin);
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+  throw new Error(`vite preview did not start on port ${PORT}`);
+};
+
+const preview = spawn(process.execPath, [path.join(root, 'node_modules/vite/bin/vite.js'), 'preview', '--port', String(PORT), '--strictPort'], {
+  cwd: root,
+  stdio: 'ignore',
+});
+
+let failures = 0;
+try {
+  await waitForServer();
+  for (const pagePath of pagePaths(dist).sort()) {
+    const budget = budgetFor(pagePath);
+    if (!budget) continue;
+    const { sizes, counts, unsizedImages } = await measurePage(pagePath);
+    console.log(pagePath);
+    for (const { resourceType, budget: limit } of budget.resourceSizes ?? []) {
+      const size = sizes[resourceType] ?? 0;
+      const over = size > limit;
+      if (over) failures += 1;
+      console.log(`  ${over ? '✗' : '✓'} ${resourceType} ${size.toFixed(1)} KB / ${limit} KB`);
+    }
+    for (const { resourceType, budget: limit } of budget.resourceCounts ?? []) {
+      const count = counts[resourceType] ?? 0;
+      const over = count > limit;
+      if (over) failures += 1;
+      console.log(`  ${over ? '✗' : '✓'} ${resourceType} requests ${count} / ${limit}`);
+    }
+    for (const src of unsizedImages) console.log(`  ! image without width and height: ${src}`);
+  }
+} finally {
+  // vite preview waits for open keep-alive connections on SIGTERM.
+  preview.kill('SIGKILL');
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} budget(s) exceeded`);
+  process.exitCode = 1;
+}
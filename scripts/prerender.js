@@ -0,0 +1,55 @@
+// Fills the built `dist/index.html` with the server-rendered page, once per
+// locale and route (`dist/index.html`, `dist/es/termos/index.html`, ...), so
+// every page has content, SEO tags, link previews and its theme's colors
+// before any JavaScript runs. `dist/404.html` is the not-found page, for hosts
+// that serve one.
+// Runs after the client and SSR builds; a component that throws while
+// rendering fails the build here.
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const dist = path.join(root, 'dist');
+const serverDir = path.join(dist, 'server');
+const ROOT_ELEMENT = '<div id="root"></div>';
+const TITLE = /<title>[^<]*<\/title>/;
+const THEME_STYLE = /<style id="theme-tokens">[^<]*<\/style>/;
+
+const { render, renderHead, renderTheme, paths, LOCALES, LOCALE_INFO, DEFAULT_LOCALE } = await import(pathToFileURL(path.join(serverDir, 'entry-server.js')).href);
+
+const template = fs.readFileSync(path.join(dist, 'index.html'), 'utf-8');
+if (!template.includes(ROOT_ELEMENT)) {
+  throw new Error(`dist/index.html has no empty ${ROOT_ELEMENT} to render into`);
+}
+if (!TITLE.test(template)) {
+  throw new Error('dist/index.html has no <title> to replace with the head tags');
+}
+if (!THEME_STYLE.test(template)) {
+  throw new Error('dist/index.html has no theme <style> to replace with the route\'s theme');
+}
+
+const renderPage = async (locale, route) => {
+  const body = await render(locale, route);
+  return template
+    .replace(/<html lang="[^"]*">/, `<html lang="${locale}">`)
+    .replace(TITLE, () => renderHead(locale, route))
+    .replace(THEME_STYLE, () => renderTheme(locale, route))
+    .replace(ROOT_ELEMENT, () => `<div id="root">${body}</div>`);
+};
+
+const writePage = (file, html, locale) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, html);
+  console.log(`Prerendered ${path.relative(root, file)} (${locale})`);
+};
+
+for (const locale of LOCALES) {
+  for (const route of paths(locale)) {
+    writePage(path.join(dist, LOCALE_INFO[locale].pathPrefix, route, 'index.html'), await renderPage(locale, route), locale);
+  }
+}
+// No route lives at /404, so it renders the not-found page.
+writePage(path.join(dist, '404.html'), await renderPage(DEFAULT_LOCALE, '/404'), DEFAULT_LOCALE);
+
+fs.rmSync(serverDir, { recursive: true, force: true });
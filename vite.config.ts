@@ -1,18 +1,41 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import courseContent from './plugins/courseContent';
+import mockApi, { MOCK_API_BASE } from './plugins/mockApi';
+import i18nMessages from './plugins/i18nMessages';
+import themeTokens from './plugins/themeTokens';
+import { DEFAULT_LOCALE, LOCALES } from './i18n/locales';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const isDev = mode === 'development';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        courseContent(path.resolve(__dirname, env.COURSE_CONTENT || 'content/course.json'), {
+          locales: LOCALES,
+          defaultLocale: DEFAULT_LOCALE,
+        }),
+        i18nMessages(path.resolve(__dirname, 'i18n/messages'), LOCALES, DEFAULT_LOCALE),
+        themeTokens(env.THEME || 'dark'),
+        mockApi({ recentPurchasesFile: path.resolve(__dirname, 'plugins/mock/recent-purchases.json') }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ANALYTICS_PROVIDERS': JSON.stringify(env.ANALYTICS_PROVIDERS ?? ''),
+        'process.env.META_PIXEL_ID': JSON.stringify(env.META_PIXEL_ID ?? '1283010196910930'),
+        'process.env.GA4_MEASUREMENT_ID': JSON.stringify(env.GA4_MEASUREMENT_ID ?? ''),
+        'process.env.SITE_URL': JSON.stringify(env.SITE_URL ?? ''),
+        'process.env.THEME': JSON.stringify(env.THEME || 'dark'),
+        'process.env.LEAD_WEBHOOK_URL': JSON.stringify(env.LEAD_WEBHOOK_URL || (isDev ? `${MOCK_API_BASE}/leads` : '')),
+        'process.env.REFUND_WEBHOOK_URL': JSON.stringify(env.REFUND_WEBHOOK_URL || (isDev ? `${MOCK_API_BASE}/refunds` : '')),
+        'process.env.RECENT_PURCHASES_URL': JSON.stringify(env.RECENT_PURCHASES_URL || (isDev ? `${MOCK_API_BASE}/recent-purchases` : '')),
       },
       resolve: {
         alias: {